@@ -0,0 +1,31 @@
+// Helpers shared by the tests
+import { Node } from 'unist';
+import * as R from '../src/rngast';
+
+// Drops the positions and data of every node, such as urls and
+// annotations, to compare parsed trees against built ones
+export function withoutSource<T>(value: T): T {
+  if (Array.isArray(value)) {
+    value.forEach(withoutSource);
+  } else if (typeof value == 'object' && value != null) {
+    delete (value as Node).position;
+    delete (value as Node).data;
+    Object.values(value).forEach(withoutSource);
+  }
+  return value;
+}
+
+// Drops positions but keeps the data of every node
+export function withoutPositions<T>(value: T): T {
+  if (Array.isArray(value)) {
+    value.forEach(withoutPositions);
+  } else if (typeof value == 'object' && value != null) {
+    delete (value as Node).position;
+    Object.values(value).forEach(withoutPositions);
+  }
+  return value;
+}
+
+export function root(pattern: R.Pattern): R.RngRoot {
+  return { type: 'root', children: [pattern] };
+}
@@ -0,0 +1,257 @@
+import { expect, test, describe } from 'vitest';
+import { parseRelaxNgCompact } from '../src/rnc-to-rngast';
+import { ParseOptions, parseRelaxNg } from '../src/xast-to-rngast';
+import * as r from '../src/relaxng-builder';
+import * as R from '../src/rngast';
+import { mapResolver } from '../src/resolver';
+import { RngParseError } from '../src/errors';
+import { XSD_DATATYPES } from '../src/datatypes';
+import { root, withoutSource } from './helpers';
+
+// Parses without positions and urls, to compare against built trees
+function parse(rnc: string, options?: ParseOptions): R.RngRoot {
+  return withoutSource(parseRelaxNgCompact(rnc, options));
+}
+
+describe('Relax NG compact syntax', () => {
+  test('parses element and attribute patterns', () => {
+    expect(
+      parse(
+        `element p { attribute id { text }?, (text | element b { empty })* }`,
+      ),
+    ).toEqual(
+      root(
+        r.elemNamed(
+          'p',
+          r.optional(r.attrNamed('id', r.text())),
+          r.zeroOrMore(r.choice(r.text(), r.elemNamed('b', r.empty()))),
+        ),
+      ),
+    );
+  });
+  test('parses a grammar with combined definitions and divs', () => {
+    expect(
+      parse(`
+        start = doc
+        doc = element doc { block+ }
+        div {
+          block = element p { text }
+          block |= element ul { empty }
+        }
+        inline &= mixed { element em { text } }`),
+    ).toEqual(
+      root(
+        r.grammar(
+          r.start(r.ref('doc')),
+          r.define('doc', r.elemNamed('doc', r.oneOrMore(r.ref('block')))),
+          r.div(r.define('block', r.elemNamed('p', r.text())), {
+            ...r.define('block', r.elemNamed('ul')),
+            combine: 'choice',
+          }),
+          {
+            ...r.define('inline', r.mixed(r.elemNamed('em', r.text()))),
+            combine: 'interleave',
+          },
+        ),
+      ),
+    );
+  });
+  test('parses datatypes, values, params and except', () => {
+    expect(
+      parse(`
+        datatypes xs = "${XSD_DATATYPES}"
+        element n {
+          list { xsd:integer { minInclusive = "1" }+ },
+          (string "a" | token - ("b" | "c") | xs:NCName "x" ~ 'y')
+        }`),
+    ).toEqual(
+      root(
+        r.elemNamed(
+          'n',
+          r.list(
+            r.oneOrMore({
+              ...r.data('integer', [r.param('minInclusive', '1')]),
+              datatypeLibrary: XSD_DATATYPES,
+            }),
+          ),
+          r.choice(
+            r.value('a', 'string'),
+            r.data('token', [], r.except(r.value('b'), r.value('c'))),
+            { ...r.value('xy', 'NCName'), datatypeLibrary: XSD_DATATYPES },
+          ),
+        ),
+      ),
+    );
+  });
+  test('parses name classes', () => {
+    expect(
+      parse(`
+        namespace m = "urn:math"
+        element (m:* - m:secret | m:b) { attribute * - (id | m:id) { text } }`),
+    ).toEqual(
+      root({
+        ...r.elem(
+          r.nameChoice(r.nsName('urn:math', r.name('m:secret')), r.name('m:b')),
+          r.attr(r.anyName(r.name('id', ''), r.name('m:id'))),
+        ),
+        namespaces: { m: 'urn:math' },
+      }),
+    );
+  });
+  test('produces the same tree as the XML syntax', () => {
+    const rnc = `
+      default namespace = "urn:doc"
+      namespace a = "http://relaxng.org/ns/compatibility/annotations/1.0"
+      namespace x = "urn:x"
+
+      ## The document
+      start = element doc { section* }
+      section =
+        [ a:defaultValue = "none" ]
+        attribute x:level { xsd:integer }?,
+        element title { text },
+        (\\element | parent other)
+      \\element = element p { empty }`;
+    const xml = `
+      <grammar xmlns="http://relaxng.org/ns/structure/1.0" ns="urn:doc"
+          xmlns:a="http://relaxng.org/ns/compatibility/annotations/1.0"
+          xmlns:x="urn:x">
+        <start>
+          <a:documentation>The document</a:documentation>
+          <element name="doc">
+            <zeroOrMore><ref name="section"/></zeroOrMore>
+          </element>
+        </start>
+        <define name="section">
+          <optional>
+            <attribute name="x:level" a:defaultValue="none">
+              <data type="integer" datatypeLibrary="${XSD_DATATYPES}"/>
+            </attribute>
+          </optional>
+          <element name="title"><text/></element>
+          <choice><ref name="element"/><parentRef name="other"/></choice>
+        </define>
+        <define name="element"><element name="p"><empty/></element></define>
+      </grammar>`;
+    const compact = parseRelaxNgCompact(rnc);
+    const start = compact.children[0] as R.Grammar;
+    expect(start.children[0].data?.annotations).toEqual({
+      documentation: 'The document',
+    });
+    expect(withoutSource(compact)).toEqual(withoutSource(parseRelaxNg(xml)));
+  });
+  test('keeps annotations as node data', () => {
+    const tree = parseRelaxNgCompact(`
+      namespace a = "http://relaxng.org/ns/compatibility/annotations/1.0"
+      namespace x = "urn:x"
+      x:meta [ "about" ]
+      ## First
+      [ a:documentation [ "Second" ] x:level = "block" ]
+      p = element p { text } >> x:note [ x:kind = "aside" "More" ]`);
+    const grammar = tree.children[0] as R.Grammar;
+    expect(grammar.data?.annotations?.elements).toMatchObject([
+      { name: 'x:meta', children: [{ type: 'text', value: 'about' }] },
+    ]);
+    const define = grammar.children[0] as R.Define;
+    expect(define.data?.annotations).toEqual({
+      documentation: 'First\n\nSecond',
+      attributes: { 'x:level': 'block' },
+    });
+    expect(define.children[0].data?.annotations?.elements).toMatchObject([
+      {
+        name: 'x:note',
+        attributes: { 'x:kind': 'aside' },
+        children: [{ type: 'text', value: 'More' }],
+      },
+    ]);
+  });
+  test('decodes escapes and ignores comments', () => {
+    expect(
+      parse(`# A comment\nelement \\x{70} { "a\\x{2C}b" } # trailing`),
+    ).toEqual(root(r.elemNamed('p', r.value('a,b'))));
+    expect(parse(`element p { """a "quoted"\nvalue""" }`)).toEqual(
+      root(r.elemNamed('p', r.value('a "quoted"\nvalue'))),
+    );
+  });
+  test('keeps the position of each node', () => {
+    const tree = parseRelaxNgCompact(`start =\n  element p { text }`, {
+      url: 'doc.rnc',
+    });
+    const start = (tree.children[0] as R.Grammar).children[0] as R.Start;
+    expect(start.children[0].position).toEqual({
+      start: { line: 2, column: 3, offset: 10 },
+      end: { line: 2, column: 21, offset: 28 },
+    });
+    expect(start.children[0].data?.url).toEqual('doc.rnc');
+  });
+  test('loads included and external grammars', () => {
+    const resolver = mapResolver({
+      'lib/base.rnc': `start = element base { external "inline.rnc" }`,
+      'lib/inline.rnc': `element em { text }`,
+    });
+    const tree = parse(
+      `default namespace = "urn:doc"\ninclude "lib/base.rnc" { start = empty }`,
+      { resolver },
+    );
+    const include = (tree.children[0] as R.Grammar).children[0] as R.Include;
+    expect(include).toEqual({
+      ...r.include('lib/base.rnc', r.start(r.empty())),
+      ns: 'urn:doc',
+      grammar: r.grammar(
+        r.start(
+          r.elemNamed('base', {
+            ...r.externalRef('inline.rnc'),
+            pattern: r.elemNamed('em', r.text()),
+          }),
+        ),
+      ),
+    });
+  });
+});
+
+describe('Relax NG compact syntax errors', () => {
+  function errorOf(rnc: string): RngParseError {
+    try {
+      parseRelaxNgCompact(rnc, { url: 'bad.rnc' });
+    } catch (e) {
+      if (e instanceof RngParseError) return e;
+      throw e;
+    }
+    throw new Error('Expected a parse error');
+  }
+  test('reports syntax errors with their position', () => {
+    const error = errorOf(`element p {\n  text, empty | text }`);
+    expect(error.code).toEqual('invalid-syntax');
+    expect(error.message).toEqual('Cannot mix , and | without parentheses');
+    expect(error.place).toEqual({
+      start: { line: 2, column: 15, offset: 26 },
+      end: { line: 2, column: 16, offset: 27 },
+    });
+    expect(error.file).toEqual('bad.rnc');
+    expect(errorOf(`element p { "open }`).code).toEqual('invalid-syntax');
+    expect(errorOf(`start = element p { text } }`).message).toEqual(
+      'Expected end of file but found }',
+    );
+  });
+  test('reports undeclared prefixes', () => {
+    expect(errorOf(`element x:p { empty }`).code).toEqual('undeclared-prefix');
+    expect(errorOf(`element p { foo:bar }`).message).toEqual(
+      'Undeclared datatypes prefix: foo',
+    );
+  });
+  test('collects problems when recovering', () => {
+    const messages: RngParseError[] = [];
+    const tree = parse(`element x:p { include "a.rnc" }`, { messages });
+    expect(tree).toEqual(root(r.notAllowed()));
+    expect(messages.map((m) => m.code)).toEqual([
+      'undeclared-prefix',
+      'invalid-syntax',
+    ]);
+    const resolved: RngParseError[] = [];
+    parse(`include "missing.rnc"`, {
+      resolver: mapResolver({}),
+      messages: resolved,
+    });
+    expect(resolved.map((m) => m.code)).toEqual(['unresolved-resource']);
+  });
+});
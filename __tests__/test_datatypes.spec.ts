@@ -0,0 +1,154 @@
+import { expect, test, describe } from 'vitest';
+import {
+  builtinDatatypes,
+  defineDatatype,
+  xsdDatatypes,
+} from '../src/datatypes';
+import * as r from '../src/relaxng-builder';
+
+function allows(type: string, value: string, ...params: [string, string][]) {
+  return xsdDatatypes[type].allows(
+    value,
+    params.map(([name, value]) => r.param(name, value)),
+  );
+}
+
+describe('Built-in datatypes', () => {
+  test('allow any string', () => {
+    expect(builtinDatatypes.string.allows(' a  b ', [])).toBeTruthy();
+    expect(builtinDatatypes.token.allows('', [])).toBeTruthy();
+  });
+  test('do not support params', () => {
+    expect(() =>
+      builtinDatatypes.token.allows('a', [r.param('maxLength', '3')]),
+    ).toThrow('Unsupported param maxLength for token');
+  });
+});
+
+describe('XML Schema datatypes', () => {
+  test('check numbers', () => {
+    expect(allows('integer', ' -042 ')).toBeTruthy();
+    expect(allows('integer', '4.2')).toBeFalsy();
+    expect(allows('decimal', '.5')).toBeTruthy();
+    expect(allows('decimal', '1e3')).toBeFalsy();
+    expect(allows('double', '1e3')).toBeTruthy();
+    expect(allows('float', '-INF')).toBeTruthy();
+    expect(allows('boolean', '1')).toBeTruthy();
+    expect(allows('boolean', 'yes')).toBeFalsy();
+  });
+  test('compare values', () => {
+    const equals = (type: string, a: string, b: string) =>
+      xsdDatatypes[type].equals(a, b);
+    expect(equals('integer', '01', ' 1')).toBeTruthy();
+    expect(equals('integer', '1', '1.0')).toBeFalsy();
+    expect(equals('decimal', '1', '1.0')).toBeTruthy();
+    expect(equals('double', '1e3', '1000')).toBeTruthy();
+    expect(equals('double', 'NaN', 'NaN')).toBeTruthy();
+    expect(equals('boolean', 'true', '1')).toBeTruthy();
+    expect(equals('boolean', 'false', '1')).toBeFalsy();
+    expect(equals('token', ' a  b ', 'a b')).toBeTruthy();
+    expect(equals('string', ' a', 'a')).toBeFalsy();
+    expect(
+      equals('dateTime', '2001-10-26T21:32:52+02:00', '2001-10-26T19:32:52Z'),
+    ).toBeTruthy();
+    expect(builtinDatatypes.string.equals('a ', 'a')).toBeFalsy();
+  });
+  test('check the ranges of integer types', () => {
+    expect(allows('byte', '127')).toBeTruthy();
+    expect(allows('byte', '128')).toBeFalsy();
+    expect(allows('unsignedLong', '18446744073709551615')).toBeTruthy();
+    expect(allows('unsignedLong', '18446744073709551616')).toBeFalsy();
+    expect(allows('positiveInteger', '0')).toBeFalsy();
+    expect(allows('nonPositiveInteger', '-0')).toBeTruthy();
+  });
+  test('check names and tokens', () => {
+    expect(allows('NCName', 'sec-intro')).toBeTruthy();
+    expect(allows('NCName', 'xml:id')).toBeFalsy();
+    expect(allows('NCName', '1st')).toBeFalsy();
+    expect(allows('Name', 'xml:id')).toBeTruthy();
+    expect(allows('QName', 'm:math')).toBeTruthy();
+    expect(allows('NMTOKENS', ' 1st  2nd ')).toBeTruthy();
+    expect(allows('IDREFS', 'a 2b')).toBeFalsy();
+    expect(allows('language', 'en-US')).toBeTruthy();
+    expect(allows('anyURI', 'http://example.com/a#b')).toBeTruthy();
+    expect(allows('anyURI', 'a#b#c')).toBeFalsy();
+  });
+  test('check dates and times', () => {
+    expect(allows('date', '2024-02-29')).toBeTruthy();
+    expect(allows('date', '2023-02-29')).toBeFalsy();
+    expect(allows('dateTime', '2024-10-18T13:45:00.5+02:00')).toBeTruthy();
+    expect(allows('dateTime', '2024-10-18')).toBeFalsy();
+    expect(allows('time', '24:00:00')).toBeTruthy();
+    expect(allows('time', '24:00:01')).toBeFalsy();
+    expect(allows('gMonthDay', '--02-29')).toBeTruthy();
+    expect(allows('gYear', '0000')).toBeFalsy();
+    expect(allows('duration', 'P1Y2MT3H')).toBeTruthy();
+    expect(allows('duration', 'PT')).toBeFalsy();
+  });
+  test('check binary values', () => {
+    expect(allows('hexBinary', '0fA2')).toBeTruthy();
+    expect(allows('hexBinary', 'abc')).toBeFalsy();
+    expect(allows('base64Binary', 'aGVsbG8=')).toBeTruthy();
+    expect(allows('base64Binary', 'aGVsbG8')).toBeFalsy();
+  });
+});
+
+describe('XML Schema facets', () => {
+  test('restrict values to a pattern', () => {
+    expect(allows('token', 'abc', ['pattern', '[a-z]+'])).toBeTruthy();
+    expect(allows('token', 'abc1', ['pattern', '[a-z]+'])).toBeFalsy();
+    expect(allows('token', '^x$', ['pattern', '\\^x\\$'])).toBeTruthy();
+    expect(allows('token', 'x-1', ['pattern', '\\i\\c*'])).toBeTruthy();
+  });
+  test('restrict lengths', () => {
+    expect(allows('string', 'abc', ['length', '3'])).toBeTruthy();
+    expect(allows('string', 'abcd', ['maxLength', '3'])).toBeFalsy();
+    expect(allows('hexBinary', '0f0f', ['length', '2'])).toBeTruthy();
+    expect(allows('base64Binary', 'aGVsbG8=', ['length', '5'])).toBeTruthy();
+    expect(allows('NMTOKENS', 'a b c', ['minLength', '4'])).toBeFalsy();
+  });
+  test('restrict ranges', () => {
+    expect(allows('decimal', '10.5', ['maxInclusive', '10.50'])).toBeTruthy();
+    expect(allows('decimal', '10.51', ['maxInclusive', '10.5'])).toBeFalsy();
+    expect(allows('integer', '-3', ['minExclusive', '-4'])).toBeTruthy();
+    expect(allows('double', 'NaN', ['minInclusive', '0'])).toBeFalsy();
+    expect(
+      allows('date', '2024-01-01', ['minInclusive', '2023-12-31']),
+    ).toBeTruthy();
+    expect(
+      allows('dateTime', '2024-01-01T01:00:00+02:00', [
+        'maxExclusive',
+        '2024-01-01T00:00:00Z',
+      ]),
+    ).toBeTruthy();
+  });
+  test('restrict digits', () => {
+    expect(allows('decimal', '012.340', ['totalDigits', '4'])).toBeTruthy();
+    expect(allows('decimal', '1.234', ['fractionDigits', '2'])).toBeFalsy();
+  });
+  test('report unsupported params', () => {
+    expect(() => allows('boolean', 'true', ['maxLength', '2'])).toThrow(
+      'Unsupported param maxLength for boolean',
+    );
+    expect(() => allows('integer', '1', ['minInclusive', 'one'])).toThrow(
+      'Invalid minInclusive for integer: one',
+    );
+  });
+});
+
+describe('Custom datatypes', () => {
+  test('support facets', () => {
+    const percent = defineDatatype({
+      name: 'percent',
+      lexical: /^\d+%$/,
+      compare: (a, b) => parseInt(a) - parseInt(b),
+    });
+    expect(
+      percent.allows('50%', [r.param('maxInclusive', '100%')]),
+    ).toBeTruthy();
+    expect(
+      percent.allows('150%', [r.param('maxInclusive', '100%')]),
+    ).toBeFalsy();
+    expect(percent.allows('50', [])).toBeFalsy();
+  });
+});
@@ -1,17 +1,392 @@
 import { expect, test, describe } from 'vitest';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { parsePreTextSpec } from '../src/xast-to-rngast';
+import {
+  ParseOptions,
+  parsePreTextSpec,
+  parseRelaxNg,
+} from '../src/xast-to-rngast';
+import * as r from '../src/relaxng-builder';
+import * as R from '../src/rngast';
+import { callbackResolver, mapResolver } from '../src/resolver';
+import { RngParseError } from '../src/errors';
+import { withoutSource } from './helpers';
 
 const specPath = readFileSync(
   join(__dirname, '..', 'src', 'pretext.rng'),
   'utf-8',
 );
 
-// writeFileSync(join(__dirname, '..','spec.json'), JSON.stringify(parsePreTextSpec(specPath)))
+// Parses without positions and urls, to compare against built trees
+function parse(xml: string, options?: ParseOptions): R.RngRoot {
+  return withoutSource(parsePreTextSpec(xml, options));
+}
+
+// writeFileSync(join(__dirname, '..','spec.json'), JSON.stringify(parse(specPath)))
 
 describe('Relax NG Pretext parse syntax', () => {
   test('whole file parsed without errors', () => {
-    expect(parsePreTextSpec(specPath)).not.toBeNull();
+    expect(parse(specPath)).not.toBeNull();
+  });
+});
+
+describe('Relax NG grammar content', () => {
+  test('parses div elements', () => {
+    const tree = parse(`
+      <grammar>
+        <start><ref name="doc"/></start>
+        <div>
+          <define name="doc"><element name="doc"><empty/></element></define>
+        </div>
+      </grammar>`);
+    expect(tree.children[0]).toEqual(
+      r.grammar(
+        r.start(r.ref('doc')),
+        r.div(r.define('doc', r.elemNamed('doc', r.empty()))),
+      ),
+    );
+  });
+});
+
+describe('Relax NG include', () => {
+  const files = {
+    'base.rng': `
+      <grammar>
+        <start><ref name="doc"/></start>
+        <define name="doc"><element name="doc"><empty/></element></define>
+      </grammar>`,
+    'custom.rng': `
+      <grammar>
+        <include href="base.rng">
+          <define name="doc"><element name="article"><empty/></element></define>
+        </include>
+      </grammar>`,
+    'loop.rng': `<grammar><include href="loop.rng"/></grammar>`,
+  };
+  test('loads the included grammar through the resolver', () => {
+    const tree = parse(files['custom.rng'], {
+      resolver: mapResolver(files),
+      url: 'custom.rng',
+    });
+    const include = tree.children[0].children[0] as R.Include;
+    expect(include.type).toEqual('include');
+    expect(include.children).toEqual([
+      r.define('doc', r.elemNamed('article', r.empty())),
+    ]);
+    expect(include.grammar?.children[1]).toEqual(
+      r.define('doc', r.elemNamed('doc', r.empty())),
+    );
+  });
+  test('leaves includes unresolved without a resolver', () => {
+    const tree = parse(files['custom.rng']);
+    const include = tree.children[0].children[0] as R.Include;
+    expect(include.grammar).toBeUndefined();
+  });
+  test('reports resources that include themselves', () => {
+    expect(() =>
+      parse(files['loop.rng'], {
+        resolver: mapResolver(files),
+        url: 'loop.rng',
+      }),
+    ).toThrow('Resource loop: loop.rng -> loop.rng');
+  });
+  test('uses custom callbacks to load resources', () => {
+    const tree = parse(files['custom.rng'], {
+      resolver: callbackResolver((href) => files[href as 'base.rng']),
+    });
+    const include = tree.children[0].children[0] as R.Include;
+    expect(include.grammar).toBeDefined();
+  });
+});
+
+describe('Relax NG externalRef', () => {
+  const files = {
+    'doc.rng': `
+      <grammar>
+        <start><element name="doc"><externalRef href="modules/math.rng"/></element></start>
+      </grammar>`,
+    'modules/math.rng': `<element name="math"><empty/></element>`,
+    'a.rng': `<element name="a"><externalRef href="b.rng"/></element>`,
+    'b.rng': `<element name="b"><externalRef href="a.rng"/></element>`,
+  };
+  const resolver = mapResolver(files);
+  test('loads the referenced pattern relative to the referencing file', () => {
+    const tree = parse(files['doc.rng'], {
+      resolver,
+      url: 'doc.rng',
+    });
+    const start = tree.children[0].children[0] as R.Start;
+    const doc = start.children[0] as R.ElementNamed;
+    expect(doc.children[0]).toEqual({
+      ...r.externalRef('modules/math.rng'),
+      pattern: r.elemNamed('math', r.empty()),
+    });
+  });
+  test('reports loops between files', () => {
+    expect(() => parse(files['a.rng'], { resolver, url: 'a.rng' })).toThrow(
+      'Resource loop: a.rng -> b.rng -> a.rng',
+    );
+  });
+});
+
+describe('Relax NG list', () => {
+  test('parses list patterns in element and attribute content', () => {
+    const tree = parse(`
+      <element name="point">
+        <attribute name="coords">
+          <list><data type="integer"/><data type="integer"/></list>
+        </attribute>
+        <list><oneOrMore><value>x</value></oneOrMore></list>
+      </element>`);
+    expect(tree.children[0]).toEqual(
+      r.elemNamed(
+        'point',
+        r.attrNamed('coords', r.list(r.data('integer'), r.data('integer'))),
+        r.list(r.oneOrMore(r.value('x'))),
+      ),
+    );
+  });
+});
+
+describe('Relax NG data', () => {
+  test('parses params and except', () => {
+    const tree = parse(`
+      <element name="code">
+        <data type="token" datatypeLibrary="urn:types">
+          <param name="minLength">1</param>
+          <param name="pattern">[a-z]+</param>
+          <except><value>null</value></except>
+        </data>
+      </element>`);
+    expect(tree.children[0]).toEqual(
+      r.elemNamed('code', {
+        ...r.data(
+          'token',
+          [r.param('minLength', '1'), r.param('pattern', '[a-z]+')],
+          r.except(r.value('null')),
+        ),
+        datatypeLibrary: 'urn:types',
+      }),
+    );
+  });
+  test('requires params to precede except', () => {
+    expect(() =>
+      parse(`
+        <data type="token">
+          <except><value>a</value></except>
+          <param name="minLength">1</param>
+        </data>`),
+    ).toThrow();
+  });
+  test('parses text as attribute content', () => {
+    const tree = parse(`<attribute name="id"><text/></attribute>`);
+    expect(tree.children[0]).toEqual(r.attrNamed('id', r.text()));
+  });
+  test('parses any pattern as attribute content', () => {
+    const tree = parse(`
+      <attribute name="size">
+        <choice>
+          <group><value>a</value><empty/></group>
+          <data type="token"><except><value>none</value></except></data>
+          <notAllowed/>
+        </choice>
+      </attribute>`);
+    expect(tree.children[0]).toEqual(
+      r.attrNamed(
+        'size',
+        r.choice(
+          r.group(r.value('a'), r.empty()),
+          r.data('token', [], r.except(r.value('none'))),
+          r.notAllowed(),
+        ),
+      ),
+    );
+  });
+});
+
+describe('Relax NG source positions', () => {
+  test('keeps the position of each element', () => {
+    const tree = parsePreTextSpec(
+      `<element name="p">\n  <attribute name="id"><data type="ID"/></attribute>\n</element>`,
+    );
+    const p = tree.children[0] as R.ElementNamed;
+    const id = p.children[0] as R.AttributeNamed;
+    expect(p.position?.start).toEqual({ line: 1, column: 1, offset: 0 });
+    expect(id.position?.start).toMatchObject({ line: 2, column: 3 });
+    expect(id.children[0].position?.start).toMatchObject({
+      line: 2,
+      column: 24,
+    });
+    expect(p.data?.url).toBeUndefined();
+  });
+  test('records the url of the resource of each node', () => {
+    const files = {
+      'doc.rng': `<element name="doc"><externalRef href="p.rng"/></element>`,
+      'p.rng': `<element name="p"><text/></element>`,
+    };
+    const tree = parsePreTextSpec(files['doc.rng'], {
+      resolver: mapResolver(files),
+      url: 'doc.rng',
+    });
+    const doc = tree.children[0] as R.ElementNamed;
+    const ref = doc.children[0] as R.ExternalRef;
+    expect(doc.data?.url).toEqual('doc.rng');
+    expect(ref.pattern?.data?.url).toEqual('p.rng');
+    expect(ref.pattern?.position?.start.offset).toEqual(0);
+  });
+});
+
+describe('Relax NG parse errors', () => {
+  test('reports the code, position and element of a problem', () => {
+    let error: unknown;
+    try {
+      parsePreTextSpec(`<element name="p">\n  <foo/>\n</element>`, {
+        url: 'p.rng',
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(RngParseError);
+    const parseError = error as RngParseError;
+    expect(parseError.code).toEqual('unknown-pattern');
+    expect(parseError.message).toEqual('unknown pattern: foo');
+    expect(parseError.element?.name).toEqual('foo');
+    expect(parseError.line).toEqual(2);
+    expect(parseError.column).toEqual(3);
+    expect(parseError.file).toEqual('p.rng');
+  });
+  test('collects all problems when recovering', () => {
+    const messages: RngParseError[] = [];
+    const tree = parse(
+      `<grammar>
+        <start><element name="doc"><foo/><ref name="p"/></element></start>
+        <define name="p" combine="merge"><element name="p"><ref/></element></define>
+        <bar/>
+      </grammar>`,
+      { messages },
+    );
+    expect(messages.map((m) => [m.code, m.line])).toEqual([
+      ['unknown-pattern', 2],
+      ['missing-attribute', 3],
+      ['invalid-attribute-value', 3],
+      ['invalid-grammar-content', 4],
+    ]);
+    expect(tree.children[0]).toEqual(
+      r.grammar(
+        r.start(r.elemNamed('doc', r.ref('p'))),
+        r.define('p', r.elemNamed('p', r.ref(''))),
+      ),
+    );
+  });
+  test('recovers from malformed XML', () => {
+    const messages: RngParseError[] = [];
+    const tree = parse(`<element name="p">`, { messages });
+    expect(messages.map((m) => m.code)).toEqual(['invalid-xml']);
+    expect(tree.children[0]).toEqual(r.notAllowed());
+  });
+  test('leaves resources that cannot be loaded unresolved', () => {
+    const messages: RngParseError[] = [];
+    const tree = parse(
+      `<element name="p"><externalRef href="missing.rng"/></element>`,
+      { resolver: mapResolver({}), messages },
+    );
+    expect(messages.map((m) => [m.code, m.message])).toEqual([
+      ['unresolved-resource', 'Cannot resolve resource: missing.rng'],
+    ]);
+    expect(tree.children[0]).toEqual(
+      r.elemNamed('p', r.externalRef('missing.rng')),
+    );
+  });
+});
+
+describe('Relax NG annotations', () => {
+  const A = 'http://relaxng.org/ns/compatibility/annotations/1.0';
+  test('attaches annotations to the element they annotate', () => {
+    const tree = parsePreTextSpec(`
+      <element name="p" xmlns:a="${A}" xmlns:x="urn:x" x:level="block">
+        <a:documentation>A paragraph.</a:documentation>
+        <x:note>Rendered as a block</x:note>
+        <attribute name="id" a:defaultValue="p1"/>
+      </element>`);
+    const p = tree.children[0] as R.ElementNamed;
+    expect(p.children).toHaveLength(1);
+    expect(p.data?.annotations?.documentation).toEqual('A paragraph.');
+    expect(p.data?.annotations?.attributes).toEqual({ 'x:level': 'block' });
+    expect(p.data?.annotations?.elements?.map((el) => el.name)).toEqual([
+      'x:note',
+    ]);
+    expect(p.children[0].data?.annotations).toEqual({
+      attributes: { 'a:defaultValue': 'p1' },
+    });
+  });
+  test('only treats the annotations namespace as documentation', () => {
+    const tree = parsePreTextSpec(`
+      <element name="p" xmlns:a="urn:other"><a:documentation>x</a:documentation></element>`);
+    const annotations = tree.children[0].data?.annotations;
+    expect(annotations?.documentation).toBeUndefined();
+    expect(annotations?.elements).toHaveLength(1);
+  });
+  test('keeps the documentation of the PreTeXt grammar', () => {
+    const grammar = parsePreTextSpec(specPath).children[0] as R.Grammar;
+    const book = grammar.children.find(
+      (ch) => ch.type == 'define' && ch.name == 'Book',
+    ) as R.Define;
+    expect(book.children[0].data?.annotations?.documentation).toEqual(
+      'Here is what a book looks like.',
+    );
+  });
+});
+
+describe('Relax NG name classes', () => {
+  function parseName(xml: string): R.RngRoot {
+    return withoutSource(parseRelaxNg(xml));
+  }
+  test('parses name children of element and attribute', () => {
+    const tree = parseName(`
+      <element>
+        <name ns="urn:doc"> doc </name>
+        <attribute><name>id</name><data type="ID"/></attribute>
+      </element>`);
+    expect(tree.children[0]).toEqual(
+      r.elem(
+        { ...r.name('doc'), ns: 'urn:doc' },
+        r.attr(r.name('id'), r.data('ID')),
+      ),
+    );
+  });
+  test('parses anyName, nsName and choice with exceptions', () => {
+    const tree = parseName(`
+      <element>
+        <anyName>
+          <except><nsName ns="urn:x"/><name>script</name></except>
+        </anyName>
+        <attribute>
+          <choice><name>a</name><nsName><except><name>b</name></except></nsName></choice>
+        </attribute>
+      </element>`);
+    expect(tree.children[0]).toEqual(
+      r.elem(
+        r.anyName(r.nsName('urn:x'), r.name('script')),
+        r.attr(r.nameChoice(r.name('a'), r.nsName(undefined, r.name('b')))),
+      ),
+    );
+  });
+  test('reports invalid name classes', () => {
+    expect(() => parseRelaxNg(`<element><text/></element>`)).toThrow(
+      'unknown name class: text',
+    );
+    expect(() =>
+      parseRelaxNg(`<attribute><anyName><name>a</name></anyName></attribute>`),
+    ).toThrow('anyName can only contain <except>');
+  });
+  test('ignores comments and instructions anywhere', () => {
+    const tree = parseName(`<?xml version="1.0"?>
+      <!-- A grammar -->
+      <?xml-model href="relaxng.rng"?>
+      <element name="p">
+        <!-- The content -->
+        <value>a<!-- split -->b</value>
+      </element>`);
+    expect(tree.children[0]).toEqual(r.elemNamed('p', r.value('ab')));
   });
 });
@@ -0,0 +1,108 @@
+import { expect, test, describe } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseRelaxNgCompact } from '../src/rnc-to-rngast';
+import { parseRelaxNg } from '../src/xast-to-rngast';
+import { simplifyRngAst } from '../src/rngast-simplify';
+import { checkRestrictions } from '../src/rngast-restrictions';
+import { RngSchemaError } from '../src/errors';
+
+const specPath = readFileSync(
+  join(__dirname, '..', 'src', 'pretext.rng'),
+  'utf-8',
+);
+
+// The violations in the simplified grammar
+function violations(rnc: string): RngSchemaError[] {
+  const tree = parseRelaxNgCompact(rnc, { url: 'doc.rnc' });
+  return checkRestrictions(simplifyRngAst(tree, { restrictions: false }));
+}
+
+function messages(rnc: string): string[] {
+  return violations(rnc).map((e) => e.message);
+}
+
+describe('Relax NG restrictions', () => {
+  test('reports prohibited paths', () => {
+    expect(
+      messages(`element p { attribute a { element b { text } } }`),
+    ).toEqual(['Prohibited path: attribute//ref']);
+    expect(messages(`element p { list { list { token } } }`)).toEqual([
+      'Prohibited path: list//list',
+    ]);
+    expect(messages(`element p { token - (text | "a") }`)).toEqual([
+      'Prohibited path: except//text',
+    ]);
+    expect(
+      messages(`element p { (attribute a { text }, element b { empty })+ }`),
+    ).toEqual(['Prohibited path: oneOrMore//group//attribute']);
+    expect(
+      messages(`start = element p { empty } | attribute a { text }`),
+    ).toEqual(['Prohibited path: start//attribute']);
+  });
+  test('reports string sequences', () => {
+    expect(messages(`element p { text, xsd:integer }`)).toEqual([
+      'group cannot combine data, values or lists with other content',
+    ]);
+    expect(messages(`element p { token+ }`)).toEqual([
+      'oneOrMore cannot combine data, values or lists with other content',
+    ]);
+    expect(
+      messages(`element p { attribute a { xsd:integer }, (token | empty) }`),
+    ).toEqual([]);
+  });
+  test('reports duplicate attributes', () => {
+    expect(
+      messages(`element p { attribute a { text }, attribute a { token }? }`),
+    ).toEqual(['Attributes a and a can occur more than once']);
+    expect(
+      messages(`element p { attribute * { text } & attribute a { text } }`),
+    ).toEqual([
+      'Attributes * and a can occur more than once',
+      'Attribute * must be repeated with oneOrMore',
+    ]);
+    expect(
+      messages(`element p { attribute * - a { text }*, attribute a { text } }`),
+    ).toEqual([]);
+  });
+  test('reports overlapping interleaves', () => {
+    expect(
+      messages(`element p { element b { empty } & element * { empty } }`),
+    ).toEqual(['Elements b and * occur on both sides of interleave']);
+    expect(messages(`element p { mixed { text } }`)).toEqual([
+      'Text occurs on both sides of interleave',
+    ]);
+    expect(
+      messages(
+        `element p { attribute a { text } & mixed { element b { empty } } }`,
+      ),
+    ).toEqual([]);
+  });
+  test('points at the offending node with its path', () => {
+    const [error] = violations(
+      `start = doc\ndoc = element doc { element p { text, token } }`,
+    );
+    expect(error.code).toEqual('string-sequence');
+    expect(error.path).toEqual(['define elem__1', 'element p', 'group']);
+    expect(error.place).toEqual({
+      start: { line: 2, column: 33, offset: 44 },
+      end: { line: 2, column: 44, offset: 55 },
+    });
+    expect(error.file).toEqual('doc.rnc');
+  });
+  test('checks the restrictions when simplifying', () => {
+    const rnc = `element p { text, token }`;
+    expect(() => simplifyRngAst(parseRelaxNgCompact(rnc))).toThrow(
+      RngSchemaError,
+    );
+    expect(() =>
+      simplifyRngAst(parseRelaxNgCompact(rnc), { restrictions: false }),
+    ).not.toThrow();
+  });
+  test('accepts the PreTeXt grammar', () => {
+    const simplified = simplifyRngAst(parseRelaxNg(specPath), {
+      restrictions: false,
+    });
+    expect(checkRestrictions(simplified)).toEqual([]);
+  });
+});
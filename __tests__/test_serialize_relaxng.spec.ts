@@ -0,0 +1,258 @@
+import { expect, test, describe } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { toRnc } from '../src/rngast-to-rnc';
+import { rngastToXast, toRngXml } from '../src/rngast-to-xast';
+import { parseRelaxNgCompact } from '../src/rnc-to-rngast';
+import { parseRelaxNg } from '../src/xast-to-rngast';
+import { simplifyRngAst } from '../src/rngast-simplify';
+import * as r from '../src/relaxng-builder';
+import * as R from '../src/rngast';
+import { XSD_DATATYPES } from '../src/datatypes';
+import { root, withoutPositions } from './helpers';
+
+const specPath = readFileSync(
+  join(__dirname, '..', 'src', 'pretext.rng'),
+  'utf-8',
+);
+
+describe('Compact syntax serializer', () => {
+  test('prints operators with parentheses where needed', () => {
+    const tree = root(
+      r.elemNamed(
+        'p',
+        r.optional(r.attrNamed('id')),
+        r.zeroOrMore(r.choice(r.text(), r.elemNamed('b'))),
+        r.oneOrMore(r.ref('x'), r.ref('y')),
+        r.interleave(r.optional(r.oneOrMore(r.ref('z'))), r.value('a')),
+      ),
+    );
+    expect(toRnc(tree)).toEqual(
+      [
+        'element p {',
+        '  attribute id { text }?,',
+        '  (text | element b { empty })*,',
+        '  (x, y)+,',
+        '  ((z+)? & "a")',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+  test('prints grammar content with documentation', () => {
+    const doc = r.define('doc', r.elemNamed('doc', r.ref('text')));
+    doc.data = { annotations: { documentation: 'The root\n\nof documents' } };
+    const tree = root(
+      r.grammar(
+        r.start(r.ref('doc')),
+        doc,
+        r.div({
+          ...r.define('text', r.choice(r.text(), r.empty())),
+          combine: 'choice',
+        }),
+        r.include('common.rnc', r.define('extra', r.notAllowed())),
+      ),
+    );
+    expect(toRnc(tree)).toEqual(
+      [
+        'start = doc',
+        '',
+        '## The root',
+        '##',
+        '## of documents',
+        'doc = element doc { \\text }',
+        '',
+        'div { \\text |= text? }',
+        '',
+        'include "common.rnc" { extra = notAllowed }',
+        '',
+      ].join('\n'),
+    );
+  });
+  test('breaks long patterns over several lines', () => {
+    const names = ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta'];
+    const tree = root(
+      r.elemNamed(
+        'list',
+        r.zeroOrMore(r.choice(...names.map((n) => r.elemNamed(n, r.text())))),
+      ),
+    );
+    expect(toRnc(tree)).toEqual(
+      [
+        'element list {',
+        '  (',
+        '    element alpha { text }',
+        '    | element beta { text }',
+        '    | element gamma { text }',
+        '    | element delta { text }',
+        '    | element epsilon { text }',
+        '    | element zeta { text }',
+        '  )*',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+  test('declares namespaces and datatype libraries', () => {
+    const tree = root(
+      r.elem(
+        r.name('doc', 'urn:doc'),
+        r.attr(r.name('lang', 'http://www.w3.org/XML/1998/namespace')),
+        r.attr(r.name('level', 'urn:x'), {
+          ...r.data('integer', [r.param('minInclusive', '1')]),
+          datatypeLibrary: XSD_DATATYPES,
+        }),
+        r.elem(r.nsName('urn:x', r.name('secret', 'urn:x'))),
+        { ...r.value('a', 'token'), datatypeLibrary: 'urn:types' },
+      ),
+    );
+    expect(toRnc(tree)).toEqual(
+      [
+        'default namespace = "urn:doc"',
+        'namespace ns1 = "urn:x"',
+        'datatypes dt1 = "urn:types"',
+        '',
+        'element doc {',
+        '  attribute xml:lang { text },',
+        '  attribute ns1:level { xsd:integer { minInclusive = "1" } },',
+        '  element ns1:* - ns1:secret { empty },',
+        '  dt1:token "a"',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+  test('keeps declared prefixes and annotations', () => {
+    const rnc = [
+      'namespace a = "http://relaxng.org/ns/compatibility/annotations/1.0"',
+      'namespace x = "urn:x"',
+      '',
+      'x:meta [ "about" ]',
+      '',
+      '## Paragraphs',
+      'p = element p { [ a:defaultValue = "1" ] attribute x:n { text }? }',
+      '',
+    ].join('\n');
+    expect(toRnc(parseRelaxNgCompact(rnc))).toEqual(rnc);
+  });
+  test('quotes values so that they parse back', () => {
+    const values = [
+      `it's "quoted"`,
+      'two\nlines',
+      `it's\r\n"quoted"`,
+      `ends with "`,
+      `'"""'`,
+      '\\x{41}',
+    ];
+    const tree = root(r.choice(...values.map((value) => r.value(value))));
+    const rnc = toRnc(tree);
+    expect(rnc.split('\n')).toEqual([
+      `'''it's "quoted"'''`,
+      '| """two\\x{A}lines"""',
+      `| '''it's\\x{D}\\x{A}"quoted"'''`,
+      `| 'ends with "'`,
+      `| "'" ~ '"""' ~ "'"`,
+      '| "\\x{5C}x{41}"',
+      '',
+    ]);
+    const reparsed = parseRelaxNgCompact(rnc).children[0] as R.Choice;
+    expect(reparsed.children.map((ch) => (ch as R.Value).value)).toEqual(
+      values,
+    );
+  });
+  test('prints the simplified PreTeXt grammar so that it parses back', () => {
+    const simplified = simplifyRngAst(parseRelaxNg(specPath));
+    const rnc = toRnc(simplified);
+    expect(rnc).toContain('PretextRoot =\n  element pretext {\n');
+    // Nested choices are printed flat, so the reparsed tree may associate
+    // them differently, but it prints the same
+    const reparsed = simplifyRngAst(parseRelaxNgCompact(rnc));
+    expect(toRnc(reparsed)).toEqual(rnc);
+  });
+});
+
+describe('XML syntax serializer', () => {
+  test('writes combine, namespaces, data params and name classes', () => {
+    const grammar = {
+      ...r.grammar(
+        { ...r.start(r.ref('doc')), combine: 'choice' as const },
+        r.define(
+          'doc',
+          r.elem(
+            r.nameChoice(r.name('m:doc'), r.nsName('urn:x', r.name('x:no'))),
+            r.attr(r.anyName(), {
+              ...r.data('integer', [r.param('minInclusive', '1')]),
+              datatypeLibrary: XSD_DATATYPES,
+            }),
+            r.data('token', [], r.except(r.value('a & b'))),
+          ),
+        ),
+      ),
+      namespaces: { m: 'urn:math' },
+    };
+    expect(toRngXml(root(grammar))).toEqual(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<grammar xmlns="http://relaxng.org/ns/structure/1.0" xmlns:m="urn:math">',
+        '  <start combine="choice">',
+        '    <ref name="doc"/>',
+        '  </start>',
+        '  <define name="doc">',
+        '    <element>',
+        '      <choice>',
+        '        <name>m:doc</name>',
+        '        <nsName ns="urn:x">',
+        '          <except>',
+        '            <name>x:no</name>',
+        '          </except>',
+        '        </nsName>',
+        '      </choice>',
+        '      <attribute>',
+        '        <anyName/>',
+        `        <data type="integer" datatypeLibrary="${XSD_DATATYPES}">`,
+        '          <param name="minInclusive">1</param>',
+        '        </data>',
+        '      </attribute>',
+        '      <data type="token">',
+        '        <except>',
+        '          <value>a &#x26; b</value>',
+        '        </except>',
+        '      </data>',
+        '    </element>',
+        '  </define>',
+        '</grammar>',
+        '',
+      ].join('\n'),
+    );
+  });
+  test('writes documentation and annotations', () => {
+    const doc = r.elemNamed('doc', r.empty());
+    doc.data = {
+      annotations: {
+        documentation: 'The document',
+        attributes: { 'x:level': 'top' },
+      },
+    };
+    const tree = rngastToXast(root({ ...doc, namespaces: { x: 'urn:x' } }));
+    expect(tree.children[0]).toMatchObject({
+      name: 'element',
+      attributes: {
+        xmlns: 'http://relaxng.org/ns/structure/1.0',
+        'xmlns:a': 'http://relaxng.org/ns/compatibility/annotations/1.0',
+        'xmlns:x': 'urn:x',
+        name: 'doc',
+        'x:level': 'top',
+      },
+      children: [
+        { name: 'a:documentation', children: [{ value: 'The document' }] },
+        { name: 'empty' },
+      ],
+    });
+  });
+  test('round-trips the PreTeXt grammar', () => {
+    const tree = withoutPositions(parseRelaxNg(specPath));
+    const xml = toRngXml(tree);
+    expect(withoutPositions(parseRelaxNg(xml))).toEqual(tree);
+    expect(toRngXml(parseRelaxNg(xml))).toEqual(xml);
+  });
+});
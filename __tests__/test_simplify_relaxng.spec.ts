@@ -0,0 +1,898 @@
+import { expect, test, describe } from 'vitest';
+import { join } from 'path';
+import { ParseOptions, parsePreTextSpec } from '../src/xast-to-rngast';
+import { visit } from 'unist-util-visit';
+import {
+  flattenDivElements,
+  resolveNamespaces,
+  runSimplificationSteps,
+  SimplificationPass,
+  SIMPLIFICATION_STEPS,
+  simplifyRngAst,
+  simplifyRngAstPure,
+  XML_NAMESPACE,
+} from '../src/rngast-simplify';
+import * as r from '../src/relaxng-builder';
+import * as R from '../src/rngast';
+import * as S from '../src/simple-rngast';
+import { fileSystemResolver, mapResolver } from '../src/resolver';
+import { RngSchemaError } from '../src/errors';
+import { withoutSource } from './helpers';
+
+// Parses without positions and urls, to compare against built trees
+function parse(xml: string, options?: ParseOptions): R.RngRoot {
+  return withoutSource(parsePreTextSpec(xml, options));
+}
+
+describe('Relax NG simplification', () => {
+  test('flattens div elements into the grammar', () => {
+    const tree = parse(`
+      <grammar>
+        <start><ref name="doc"/></start>
+        <div>
+          <define name="doc"><element name="doc"><ref name="para"/></element></define>
+          <div>
+            <define name="para"><element name="p"><text/></element></define>
+          </div>
+        </div>
+      </grammar>`);
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children).toEqual([
+      r.start(r.ref('doc')),
+      r.define('doc', r.elem(r.name('doc', ''), r.ref('para'))),
+      r.define('para', r.elem(r.name('p', ''), r.text())),
+    ]);
+  });
+  test('removes the defines that are not reachable from start', () => {
+    const tree = parse(`
+      <grammar>
+        <start><ref name="doc"/></start>
+        <define name="unused"><element name="unused"><empty/></element></define>
+        <define name="doc"><element name="doc"><empty/></element></define>
+      </grammar>`);
+    expect(simplifyRngAst(tree).children[0].children).toEqual([
+      r.start(r.ref('doc')),
+      r.define('doc', r.elem(r.name('doc', ''), r.empty())),
+    ]);
+  });
+  test('keeps the reachable defines in the order they are reached', () => {
+    const tree = parse(`
+      <grammar>
+        <start><ref name="doc"/></start>
+        <define name="para"><element name="p"><empty/></element></define>
+        <define name="unused"><element name="unused"><empty/></element></define>
+        <define name="title"><element name="title"><empty/></element></define>
+        <define name="doc">
+          <element name="doc"><ref name="title"/><ref name="para"/></element>
+        </define>
+      </grammar>`);
+    expect(simplifyRngAst(tree).children[0].children).toEqual([
+      r.start(r.ref('doc')),
+      r.define(
+        'doc',
+        r.elem(r.name('doc', ''), r.group(r.ref('title'), r.ref('para'))),
+      ),
+      r.define('title', r.elem(r.name('title', ''), r.empty())),
+      r.define('para', r.elem(r.name('p', ''), r.empty())),
+    ]);
+  });
+});
+
+describe('Relax NG namespace simplification', () => {
+  test('resolves the namespace of every name', () => {
+    const tree = parse(`
+      <element name="doc" ns="urn:doc" xmlns:m="urn:math">
+        <attribute name="id"/>
+        <attribute name="xml:lang"/>
+        <element name="m:math"><empty/></element>
+        <element name="p" ns=""><value>x</value></element>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    const [, doc, math, p] = simplified.children[0].children;
+    expect(doc.children[0].children[0]).toEqual(r.name('doc', 'urn:doc'));
+    expect(math.children[0].children[0]).toEqual(r.name('math', 'urn:math'));
+    expect(p.children[0]).toEqual(
+      r.elem(r.name('p', ''), {
+        ...r.value('x', 'token'),
+        ns: '',
+        datatypeLibrary: '',
+      }),
+    );
+    expect(doc.children[0].children[1]).toEqual(
+      r.group(
+        r.group(
+          r.group(
+            r.attr(r.name('id', ''), r.text()),
+            r.attr(r.name('lang', XML_NAMESPACE), r.text()),
+          ),
+          r.ref('elem__2'),
+        ),
+        r.ref('elem__3'),
+      ),
+    );
+  });
+  test('resolves names inside name class exceptions', () => {
+    const tree = r.elemNamed('doc', r.attr(r.anyName(r.name('xml:id'))));
+    resolveNamespaces(tree);
+    expect(tree.children[0]).toEqual(
+      r.attr(r.anyName(r.name('id', XML_NAMESPACE))),
+    );
+  });
+  test('resolves prefixes in name elements', () => {
+    const tree = parse(`
+      <element xmlns:m="urn:math">
+        <name>m:math</name>
+        <attribute><name>m:display</name></attribute>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[1]).toEqual(
+      r.define(
+        'elem__1',
+        r.elem(
+          r.name('math', 'urn:math'),
+          r.attr(r.name('display', 'urn:math'), r.text()),
+        ),
+      ),
+    );
+  });
+  test('reports undeclared prefixes', () => {
+    const tree = parse(`<element name="m:math"><empty/></element>`);
+    expect(() => simplifyRngAst(tree)).toThrow(
+      'Undeclared namespace prefix: m',
+    );
+  });
+});
+
+describe('Relax NG name class simplification', () => {
+  const xml = `
+    <element xmlns:m="urn:math">
+      <choice><name>a</name><name>b</name><name>m:c</name></choice>
+      <attribute>
+        <anyName><except><name>id</name><nsName ns="urn:x"/></except></anyName>
+      </attribute>
+    </element>`;
+  test('makes name choices and excepts binary', () => {
+    const simplified = simplifyRngAst(parse(xml), { restrictions: false });
+    expect(simplified.children[0].children[1]).toEqual(
+      r.define(
+        'elem__1',
+        r.elem(
+          r.nameChoice(
+            r.nameChoice(r.name('a', ''), r.name('b', '')),
+            r.name('c', 'urn:math'),
+          ),
+          r.attr(
+            r.anyName(r.nameChoice(r.name('id', ''), r.nsName('urn:x'))),
+            r.text(),
+          ),
+        ),
+      ),
+    );
+  });
+  test('checks name classes of simplified trees', () => {
+    const simplified = simplifyRngAst(parse(xml), { restrictions: false });
+    expect(S.isRoot(simplified)).toBe(true);
+    const element = simplified.children[0].children[1].children[0];
+    const choice = element.children[0] as R.NameChoice;
+    choice.children.push(r.name('d', ''));
+    expect(S.isRoot(simplified)).toBe(false);
+    choice.children.splice(1, 2);
+    expect(S.isRoot(simplified)).toBe(false);
+  });
+  test('explains why a tree is not simplified', () => {
+    const tree: R.RngRoot = {
+      type: 'root',
+      children: [
+        r.grammar(
+          r.start(r.group(r.empty(), r.ref('doc'), r.zeroOrMore(r.text()))),
+          r.define('doc', r.elem(r.name('doc'), r.text())),
+        ),
+      ],
+    };
+    const violations = S.checkSimplified(tree);
+    expect(
+      violations.map(({ path, expected, actual }) => ({
+        path,
+        expected,
+        actual,
+      })),
+    ).toEqual([
+      {
+        path: ['root', 'grammar', 'start', 'group'],
+        expected: 'group must have exactly two non-empty patterns',
+        actual: 'group has children empty, ref, zeroOrMore',
+      },
+      {
+        path: ['root', 'grammar', 'start', 'group', 'zeroOrMore'],
+        expected: 'a pattern of the simplified syntax',
+        actual: 'found zeroOrMore',
+      },
+      {
+        path: ['root', 'grammar', 'define doc', 'element', 'name'],
+        expected: 'name must have an ns',
+        actual: 'it has none',
+      },
+    ]);
+    expect(violations[0].node.type).toEqual('group');
+    expect(S.describeViolation(violations[2])).toEqual(
+      'root > grammar > define doc > element > name: name must have an ns, but it has none',
+    );
+    expect(S.isRoot(tree)).toBe(false);
+  });
+});
+
+describe('Relax NG list simplification', () => {
+  test('wraps multiple list children in a group', () => {
+    const integer = { ...r.data('integer'), datatypeLibrary: '' };
+    const tree = parse(`
+      <element name="point">
+        <list><data type="integer"/><data type="integer"/></list>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[1]).toEqual(
+      r.define(
+        'elem__1',
+        r.elem(r.name('point', ''), r.list(r.group(integer, integer))),
+      ),
+    );
+  });
+  test('replaces lists containing notAllowed', () => {
+    const tree = parse(`
+      <element name="point">
+        <choice><text/><list><notAllowed/></list></choice>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[1]).toEqual(
+      r.define('elem__1', r.elem(r.name('point', ''), r.text())),
+    );
+  });
+});
+
+describe('Relax NG data simplification', () => {
+  const XSD = 'http://www.w3.org/2001/XMLSchema-datatypes';
+  test('inherits the datatypeLibrary of the closest ancestor', () => {
+    const tree = parse(`
+      <element name="doc" datatypeLibrary="${XSD}">
+        <attribute name="a"><data type="integer"/></attribute>
+        <attribute name="b" datatypeLibrary=""><value>x</value></attribute>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    const doc = simplified.children[0].children[1];
+    expect(doc).toEqual(
+      r.define(
+        'elem__1',
+        r.elem(
+          r.name('doc', ''),
+          r.group(
+            r.attr(r.name('a', ''), {
+              ...r.data('integer'),
+              datatypeLibrary: XSD,
+            }),
+            r.attr(r.name('b', ''), {
+              ...r.value('x', 'token'),
+              ns: '',
+              datatypeLibrary: '',
+            }),
+          ),
+        ),
+      ),
+    );
+  });
+  test('wraps multiple except children in a choice', () => {
+    const tree = parse(`
+      <element name="doc">
+        <data type="token">
+          <param name="maxLength">3</param>
+          <except><value>a</value><value>b</value></except>
+        </data>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    const value = (v: string) => ({
+      ...r.value(v, 'token'),
+      ns: '',
+      datatypeLibrary: '',
+    });
+    expect(simplified.children[0].children[1].children[0].children[1]).toEqual({
+      ...r.data(
+        'token',
+        [r.param('maxLength', '3')],
+        r.except(r.choice(value('a'), value('b'))),
+      ),
+      datatypeLibrary: '',
+    });
+  });
+  test('removes excepts of notAllowed', () => {
+    const tree = parse(`
+      <element name="doc">
+        <data type="token"><except><notAllowed/></except></data>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[1].children[0].children[1]).toEqual({
+      ...r.data('token'),
+      datatypeLibrary: '',
+    });
+  });
+});
+
+describe('Relax NG early simplification', () => {
+  const RNG = 'http://relaxng.org/ns/structure/1.0';
+  const XSD = 'http://www.w3.org/2001/XMLSchema-datatypes';
+  const token = (v: string) => ({
+    ...r.value(v, 'token'),
+    ns: '',
+    datatypeLibrary: '',
+  });
+  test('removes foreign elements and Relax NG prefixes', () => {
+    const tree = parse(`
+      <rng:element name="doc" xmlns:rng="${RNG}" xmlns:x="urn:x">
+        <x:note>Not part of the grammar</x:note>
+        <info xmlns="urn:x"><rng:empty/></info>
+        <rng:text/>
+      </rng:element>`);
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[1]).toEqual(
+      r.define('elem__1', r.elem(r.name('doc', ''), r.text())),
+    );
+  });
+  test('strips whitespace from names and types, but not from values', () => {
+    const tree = parse(`
+      <grammar>
+        <start><ref name=" doc "/></start>
+        <define name="doc " combine=" choice ">
+          <element name=" doc">
+            <attribute name="a "><data type=" integer " datatypeLibrary="${XSD}"/></attribute>
+            <value> </value>
+          </element>
+        </define>
+      </grammar>`);
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[1]).toEqual({
+      ...r.define(
+        'doc',
+        r.elem(
+          r.name('doc', ''),
+          r.group(
+            r.attr(r.name('a', ''), {
+              ...r.data('integer'),
+              datatypeLibrary: XSD,
+            }),
+            token(' '),
+          ),
+        ),
+      ),
+      combine: 'choice',
+    });
+  });
+  test('gives values without a type the built-in token type', () => {
+    const tree = parse(`
+      <element name="doc" datatypeLibrary="${XSD}">
+        <choice><value>a</value><value type="NCName">b</value></choice>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[1].children[0].children[1]).toEqual(
+      r.choice(token('a'), {
+        ...r.value('b', 'NCName'),
+        ns: '',
+        datatypeLibrary: XSD,
+      }),
+    );
+  });
+  test('escapes the characters that are not allowed in hrefs', () => {
+    const tree = parse(
+      `<element name="p"><externalRef href="my math.rng"/></element>`,
+    );
+    expect(() => simplifyRngAst(tree)).toThrow(
+      'Cannot simplify unresolved externalRef: my%20math.rng',
+    );
+  });
+  test('applies the early steps to loaded resources', () => {
+    const resolver = mapResolver({
+      'part.rng': `
+        <rng:element name=" part " xmlns:rng="${RNG}">
+          <rng:value type=" string "> x </rng:value>
+        </rng:element>`,
+    });
+    const tree = parse(
+      `<element name="doc"><externalRef href="part.rng"/></element>`,
+      { resolver },
+    );
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[2]).toEqual(
+      r.define(
+        'elem__2',
+        r.elem(r.name('part', ''), {
+          ...r.value(' x ', 'string'),
+          ns: '',
+          datatypeLibrary: '',
+        }),
+      ),
+    );
+  });
+});
+
+describe('Relax NG include simplification', () => {
+  const files = {
+    'base.rng': `
+      <grammar>
+        <start><ref name="doc"/></start>
+        <define name="doc"><element name="doc"><ref name="inline"/></element></define>
+        <define name="inline"><element name="b"><empty/></element></define>
+      </grammar>`,
+  };
+  const resolver = mapResolver(files);
+  test('overrides the included defines', () => {
+    const tree = parse(
+      `<grammar>
+        <include href="base.rng">
+          <define name="doc"><element name="article"><ref name="inline"/></element></define>
+        </include>
+        <define name="inline" combine="choice"><element name="i"><empty/></element></define>
+      </grammar>`,
+      { resolver },
+    );
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children).toEqual([
+      r.start(r.ref('doc')),
+      r.define(
+        'doc',
+        r.elem(
+          r.name('article', ''),
+          r.choice(r.ref('elem__1'), r.ref('elem__2')),
+        ),
+      ),
+      r.define('elem__1', r.elem(r.name('b', ''), r.empty())),
+      r.define('elem__2', r.elem(r.name('i', ''), r.empty())),
+    ]);
+  });
+  test('requires overridden defines to exist in the included grammar', () => {
+    const tree = parse(
+      `<grammar>
+        <include href="base.rng">
+          <define name="missing"><element name="b"><empty/></element></define>
+        </include>
+      </grammar>`,
+      { resolver },
+    );
+    expect(() => simplifyRngAst(tree)).toThrow(
+      'Included grammar base.rng has no missing',
+    );
+  });
+  test('requires includes to be resolved', () => {
+    const tree = parse(`<grammar><include href="base.rng"/></grammar>`);
+    expect(() => simplifyRngAst(tree)).toThrow(
+      'Cannot simplify unresolved include: base.rng',
+    );
+  });
+  test('keeps the namespace prefixes of the included grammar', () => {
+    const resolver = mapResolver({
+      'module.rng': `
+        <grammar xmlns:m="urn:module">
+          <start><element name="m:module"><empty/></element></start>
+        </grammar>`,
+    });
+    const tree = parse(`<grammar><include href="module.rng"/></grammar>`, {
+      resolver,
+    });
+    expect(simplifyRngAst(tree).children[0].children).toEqual([
+      r.start(r.ref('elem__1')),
+      r.define('elem__1', r.elem(r.name('module', 'urn:module'), r.empty())),
+    ]);
+  });
+  test('gives the included grammar its own ns, or that of the include', () => {
+    const resolver = mapResolver({
+      'base.rng': `
+        <grammar ns="urn:base">
+          <start><element name="base"><ref name="inline"/></element></start>
+        </grammar>`,
+      'inline.rng': `
+        <grammar><define name="inline"><element name="b"><empty/></element></define></grammar>`,
+    });
+    const tree = parse(
+      `<grammar ns="urn:doc">
+        <include href="base.rng" ns="urn:other"/>
+        <include href="inline.rng" ns="urn:inline"/>
+      </grammar>`,
+      { resolver },
+    );
+    expect(simplifyRngAst(tree).children[0].children).toEqual([
+      r.start(r.ref('elem__1')),
+      r.define('elem__1', r.elem(r.name('base', 'urn:base'), r.ref('inline'))),
+      r.define('inline', r.elem(r.name('b', 'urn:inline'), r.empty())),
+    ]);
+  });
+  test('simplifies grammars that include the PreTeXt grammar', () => {
+    const tree = parse(
+      `<grammar>
+        <include href="pretext.rng">
+          <define name="Title"><element name="title"><text/></element></define>
+        </include>
+      </grammar>`,
+      { resolver: fileSystemResolver(join(__dirname, '..', 'src')) },
+    );
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children).toContainEqual(
+      expect.objectContaining({
+        children: [r.elem(r.name('title', ''), r.text())],
+      }),
+    );
+  });
+});
+
+describe('Relax NG externalRef simplification', () => {
+  const resolver = mapResolver({
+    'math.rng': `<element name="math"><text/></element>`,
+    'module.rng': `
+      <grammar>
+        <start><ref name="module"/></start>
+        <define name="module"><element name="module"><parentRef name="inline"/></element></define>
+      </grammar>`,
+  });
+  test('replaces externalRef with the referenced pattern', () => {
+    const tree = parse(
+      `<element name="p"><externalRef href="math.rng" ns="http://www.w3.org/1998/Math/MathML"/></element>`,
+      { resolver },
+    );
+    const simplified = simplifyRngAst(tree);
+    expect(simplified.children[0].children[2]).toEqual(
+      r.define(
+        'elem__2',
+        r.elem(r.name('math', 'http://www.w3.org/1998/Math/MathML'), r.text()),
+      ),
+    );
+  });
+  test('merges referenced grammars into the top grammar', () => {
+    const tree = parse(
+      `<grammar>
+        <start><element name="p"><externalRef href="module.rng"/></element></start>
+        <define name="inline"><text/></define>
+      </grammar>`,
+      { resolver },
+    );
+    const simplified = simplifyRngAst(tree);
+    const [, ...defines] = simplified.children[0].children;
+    expect(defines).toContainEqual(
+      r.define('module', r.elem(r.name('module', ''), r.text())),
+    );
+  });
+  test('requires externalRefs to be resolved', () => {
+    const tree = parse(
+      `<element name="p"><externalRef href="math.rng"/></element>`,
+    );
+    expect(() => simplifyRngAst(tree)).toThrow(
+      'Cannot simplify unresolved externalRef: math.rng',
+    );
+  });
+});
+
+describe('Relax NG name class constraints', () => {
+  function errorOf(xml: string): RngSchemaError {
+    const tree = parsePreTextSpec(xml, { url: 'bad.rng' });
+    try {
+      simplifyRngAst(tree);
+    } catch (e) {
+      if (e instanceof RngSchemaError) return e;
+      throw e;
+    }
+    throw new Error('Expected a schema error');
+  }
+  test('rejects anyName and nsName in excepts that include them', () => {
+    const error = errorOf(
+      `<element>\n  <anyName><except><anyName/></except></anyName>\n  <empty/>\n</element>`,
+    );
+    expect(error.code).toEqual('invalid-except');
+    expect(error.message).toEqual(
+      'The except of anyName cannot contain anyName',
+    );
+    expect(error.node.type).toEqual('anyName');
+    expect(error.place).toEqual({
+      start: { line: 2, column: 20, offset: 29 },
+      end: { line: 2, column: 30, offset: 39 },
+    });
+    expect(error.file).toEqual('bad.rng');
+    expect(
+      errorOf(`
+        <element>
+          <nsName ns="urn:x">
+            <except><choice><name>a</name><nsName/></choice></except>
+          </nsName>
+          <empty/>
+        </element>`).message,
+    ).toEqual('The except of nsName cannot contain nsName');
+  });
+  test('allows nsName in the except of anyName', () => {
+    const tree = parse(`
+      <element>
+        <anyName><except><nsName ns="urn:x"/></except></anyName>
+        <empty/>
+      </element>`);
+    expect(() => simplifyRngAst(tree)).not.toThrow();
+  });
+  test('rejects xmlns attributes', () => {
+    expect(
+      errorOf(`<element name="p"><attribute name="xmlns"/></element>`),
+    ).toMatchObject({
+      code: 'xmlns-attribute',
+      message: 'Attributes cannot be named xmlns',
+      node: { type: 'name', name: 'xmlns', ns: '' },
+    });
+    expect(
+      errorOf(`
+        <element name="p">
+          <attribute><nsName ns="http://www.w3.org/2000/xmlns"/></attribute>
+        </element>`).code,
+    ).toEqual('xmlns-attribute');
+    // Only attribute names are restricted
+    const tree = parse(
+      `<element name="xmlns"><attribute name="xmlns" ns="urn:x"/></element>`,
+    );
+    expect(() => simplifyRngAst(tree)).not.toThrow();
+  });
+});
+
+describe('Relax NG reference checks', () => {
+  function simplifyDefines(defines: string) {
+    return simplifyRngAst(
+      parsePreTextSpec(`
+        <grammar>
+          <start><element name="doc"><ref name="A"/></element></start>
+          ${defines}
+        </grammar>`),
+    );
+  }
+  test('reports defines that expand to themselves', () => {
+    expect(() =>
+      simplifyDefines(`<define name="A"><ref name="A"/></define>`),
+    ).toThrow('Reference loop through defines: A -> A');
+    try {
+      simplifyDefines(`
+        <define name="A"><choice><text/><ref name="B"/></choice></define>
+        <define name="B"><oneOrMore><ref name="C"/></oneOrMore></define>
+        <define name="C"><optional><ref name="A"/></optional></define>`);
+    } catch (e) {
+      expect(e).toBeInstanceOf(RngSchemaError);
+      expect(e).toMatchObject({
+        code: 'reference-loop',
+        message: 'Reference loop through defines: A -> B -> C -> A',
+        node: { type: 'define', name: 'A' },
+      });
+      return;
+    }
+    throw new Error('Expected a reference loop');
+  });
+  test('expands chains of defines that are not elements', () => {
+    const tree = parse(`
+      <grammar>
+        <start><ref name="doc"/></start>
+        <define name="doc"><element name="doc"><ref name="A"/></element></define>
+        <define name="A"><ref name="B"/></define>
+        <define name="B"><text/></define>
+      </grammar>`);
+    expect(simplifyRngAst(tree).children[0].children).toEqual([
+      r.start(r.ref('doc')),
+      r.define('doc', r.elem(r.name('doc', ''), r.text())),
+    ]);
+  });
+  test('allows recursion through elements', () => {
+    const simplified = simplifyDefines(`
+      <define name="A"><element name="a"><optional><ref name="B"/></optional></element></define>
+      <define name="B"><ref name="A"/></define>`);
+    expect(simplified.children[0].children).toContainEqual(
+      expect.objectContaining({ type: 'define', name: 'A' }),
+    );
+  });
+  test('reports refs to undefined defines', () => {
+    expect(() =>
+      simplifyDefines(`<define name="A"><ref name="missing"/></define>`),
+    ).toThrow(
+      expect.objectContaining({
+        code: 'undefined-reference',
+        message: 'Reference to undefined define: missing',
+      }),
+    );
+  });
+});
+
+describe('Relax NG simplification source positions', () => {
+  test('derives positions for the nodes it creates', () => {
+    const tree = parsePreTextSpec(
+      `<element name="doc">\n  <optional><text/></optional>\n  <text/>\n</element>`,
+    );
+    const simplified = simplifyRngAst(tree);
+    const [start, define] = simplified.children[0].children;
+    // The grammar and its start are derived from the top element
+    expect(start.position).toEqual(define.position);
+    expect(start.position?.start).toEqual({ line: 1, column: 1, offset: 0 });
+    const [name, group] = define.children[0].children;
+    expect(name.position?.start.line).toEqual(1);
+    // The group spans the element's content
+    expect(group.position?.start).toMatchObject({ line: 2, column: 3 });
+    expect(group.position?.end).toMatchObject({ line: 3, column: 10 });
+    // The optional became a choice with an added empty
+    const [choice] = (group as R.Group).children;
+    expect(choice.type).toEqual('choice');
+    expect(choice.position?.start).toMatchObject({ line: 2, column: 3 });
+    expect((choice as R.Choice).children[0].position?.start.line).toEqual(2);
+  });
+  test('keeps the urls of included nodes', () => {
+    const files = {
+      'base.rng': `<grammar><start><element name="doc"><text/></element></start></grammar>`,
+      'main.rng': `<grammar><include href="base.rng"/></grammar>`,
+    };
+    const tree = parsePreTextSpec(files['main.rng'], {
+      resolver: mapResolver(files),
+      url: 'main.rng',
+    });
+    const simplified = simplifyRngAst(tree);
+    const [start, define] = simplified.children[0].children;
+    expect(simplified.children[0].data?.url).toEqual('main.rng');
+    expect(start.data?.url).toEqual('base.rng');
+    expect(define.children[0].data?.url).toEqual('base.rng');
+  });
+});
+
+describe('Relax NG annotation simplification', () => {
+  test('keeps annotations on the nodes that replace the annotated ones', () => {
+    const tree = parsePreTextSpec(`
+      <element name="doc" xmlns:a="http://relaxng.org/ns/compatibility/annotations/1.0">
+        <a:documentation>A document.</a:documentation>
+        <optional>
+          <a:documentation>A title, if any.</a:documentation>
+          <attribute name="title"/>
+        </optional>
+      </element>`);
+    const simplified = simplifyRngAst(tree);
+    const element = simplified.children[0].children[1].children[0];
+    expect(element.data?.annotations?.documentation).toEqual('A document.');
+    expect(element.children[1].type).toEqual('choice');
+    expect(element.children[1].data?.annotations?.documentation).toEqual(
+      'A title, if any.',
+    );
+  });
+});
+
+describe('Relax NG pure simplification', () => {
+  const xml = `
+    <grammar>
+      <start>
+        <element name="doc">
+          <ref name="Section"/>
+          <grammar>
+            <start><ref name="Section"/></start>
+            <define name="Section"><element name="aside"><empty/></element></define>
+          </grammar>
+        </element>
+      </start>
+      <define name="Section"><element name="section"><ref name="Block"/></element></define>
+      <define name="Block">
+        <choice><element name="p"><text/></element><empty/></choice>
+      </define>
+    </grammar>`;
+  test('leaves the tree unchanged', () => {
+    const tree = parsePreTextSpec(xml);
+    const before = JSON.stringify(tree);
+    const { tree: simplified } = simplifyRngAstPure(tree);
+    expect(JSON.stringify(tree)).toEqual(before);
+    expect(withoutSource(simplified)).toEqual(
+      withoutSource(simplifyRngAst(parsePreTextSpec(xml))),
+    );
+  });
+  test('traces simplified defines back to the original elements', () => {
+    const tree = parse(xml);
+    const grammar = tree.children[0] as R.Grammar;
+    const [start, section, block] = grammar.children as [
+      R.Start,
+      R.Define,
+      R.Define,
+    ];
+    const doc = start.children[0] as R.ElementNamed;
+    const nested = doc.children[1] as R.Grammar;
+    const aside = nested.children[1] as R.Define;
+    const { trace } = simplifyRngAstPure(tree);
+    expect([...trace.keys()].sort()).toEqual([
+      'Section',
+      'Section__1',
+      'elem__1',
+      'elem__2',
+    ]);
+    expect(trace.get('Section')).toEqual({
+      element: section.children[0],
+      define: section,
+    });
+    expect(trace.get('Section__1')?.define).toBe(aside);
+    expect(trace.get('Section__1')?.element).toBe(aside.children[0]);
+    expect(trace.get('elem__1')).toEqual({ element: doc, define: undefined });
+    const choice = block.children[0] as R.Choice;
+    expect(trace.get('elem__2')?.element).toBe(choice.children[0]);
+    expect(trace.get('elem__2')?.define).toBe(block);
+  });
+});
+
+describe('Relax NG simplification pipeline', () => {
+  const xml = `
+    <grammar>
+      <start><ref name="doc"/></start>
+      <div>
+        <define name="doc">
+          <element name="doc">
+            <choice>
+              <element name="p"><text/></element>
+              <element name="old"><text/></element>
+              <empty/>
+            </choice>
+          </element>
+        </define>
+      </div>
+    </grammar>`;
+  // Drops the elements named old, as a custom pass
+  const dropOld: SimplificationPass = {
+    name: 'dropOld',
+    after: 'moveNameAttributeToChild',
+    run: (tree) =>
+      visit(tree, 'element', (node: R.Element, index, parent) => {
+        const [nameClass] = node.children;
+        if (nameClass.type != 'name' || nameClass.name != 'old') return;
+        parent!.children.splice(index!, 1, r.notAllowed());
+      }),
+  };
+  test('exposes each step as a transform', () => {
+    const tree = parse(xml);
+    flattenDivElements(tree);
+    expect((tree.children[0] as R.Grammar).children[1].type).toEqual('define');
+  });
+  test('runs up to a given step', () => {
+    const tree = runSimplificationSteps(parse(xml), {
+      until: 'flattenDivElements',
+    });
+    const [, doc] = (tree.children[0] as R.Grammar).children as [
+      R.Start,
+      R.Define,
+    ];
+    expect(doc.name).toEqual('doc');
+    // Choices are only made binary by the next step
+    const choice = (doc.children[0] as R.Element).children[1] as R.Choice;
+    expect(choice.children).toHaveLength(3);
+  });
+  test('takes a snapshot after each step', () => {
+    const snapshots: [string, R.RngRoot][] = [];
+    const tree = parse(xml);
+    simplifyRngAst(tree, {
+      onStep: (step, snapshot) => snapshots.push([step.name, snapshot]),
+    });
+    expect(snapshots.map(([name]) => name)).toEqual(
+      SIMPLIFICATION_STEPS.map((step) => step.name),
+    );
+    const [, [, afterHrefs]] = [...snapshots.entries()].find(
+      ([, [name]]) => name == 'resolveHrefs',
+    )!;
+    expect((afterHrefs.children[0] as R.Grammar).children[1].type).toEqual(
+      'div',
+    );
+    expect(snapshots[snapshots.length - 1][1]).toEqual(tree);
+    expect(snapshots[snapshots.length - 1][1]).not.toBe(tree);
+  });
+  test('skips steps and runs custom passes', () => {
+    const simplified = simplifyRngAst(parse(xml), { passes: [dropOld] });
+    const [, ...defines] = simplified.children[0].children;
+    expect(defines.map((d) => d.children[0].children[0])).toEqual([
+      r.name('doc', ''),
+      r.name('p', ''),
+    ]);
+    const unflattened = runSimplificationSteps(parse(xml), {
+      skip: ['flattenDivElements'],
+      until: 'controlChildren',
+    });
+    expect((unflattened.children[0] as R.Grammar).children[1].type).toEqual(
+      'div',
+    );
+  });
+  test('rejects unknown steps', () => {
+    expect(() =>
+      runSimplificationSteps(parse(xml), { until: 'flattenDivs' }),
+    ).toThrow('Unknown simplification step: flattenDivs');
+    expect(() =>
+      runSimplificationSteps(parse(xml), {
+        passes: [{ ...dropOld, after: 'dropNew' }],
+      }),
+    ).toThrow('Unknown simplification step: dropNew');
+  });
+});
@@ -0,0 +1,153 @@
+import { expect, test, describe } from 'vitest';
+import { unified } from 'unified';
+import { VFile } from 'vfile';
+import { fromXml } from 'xast-util-from-xml';
+import { x } from 'xastscript';
+import { parseRelaxNgCompact } from '../src/rnc-to-rngast';
+import { mapResolver } from '../src/resolver';
+import {
+  rngParse,
+  rngSimplify,
+  rngStringify,
+  rngValidate,
+} from '../src/unified-plugins';
+
+describe('unified plugins', () => {
+  const rng = `<element name="doc" xmlns="http://relaxng.org/ns/structure/1.0"><text/></element>`;
+  test('parse and stringify either syntax', () => {
+    const processor = unified().use(rngParse).use(rngStringify);
+    const rnc = processor.processSync(
+      new VFile({ path: 'doc.rnc', value: 'element doc { text }' }),
+    );
+    expect(String(rnc)).toEqual('element doc { text }\n');
+    const converted = unified()
+      .use(rngParse)
+      .use(rngStringify, { syntax: 'compact' })
+      .processSync(new VFile({ path: 'doc.rng', value: rng }));
+    expect(String(converted)).toEqual('element doc { text }\n');
+    const xml = unified()
+      .use(rngParse, { syntax: 'compact' })
+      .use(rngStringify, { syntax: 'xml' })
+      .processSync('element doc { text }');
+    expect(String(xml)).toContain(
+      '<element xmlns="http://relaxng.org/ns/structure/1.0" name="doc">',
+    );
+  });
+  test('parse reports problems on the file', () => {
+    const file = new VFile({ path: 'doc.rnc', value: 'element doc { text, }' });
+    const tree = unified().use(rngParse).parse(file);
+    expect(tree.type).toEqual('root');
+    expect(file.messages).toHaveLength(1);
+    const [message] = file.messages;
+    expect(message.reason).toEqual('Expected a pattern but found }');
+    expect(message.ruleId).toEqual('invalid-syntax');
+    expect(message.fatal).toBe(true);
+    expect(message.place).toEqual({
+      start: { line: 1, column: 21, offset: 20 },
+      end: { line: 1, column: 22, offset: 21 },
+    });
+    expect(message.file).toEqual('doc.rnc');
+  });
+  test('parse resolves includes relative to the file', () => {
+    const resolver = mapResolver({
+      'schemas/inline.rnc': 'start = element b { text }',
+    });
+    const file = new VFile({
+      path: 'schemas/doc.rnc',
+      value: 'element doc { external "inline.rnc" }',
+    });
+    unified().use(rngParse, { resolver }).parse(file);
+    expect(file.messages).toEqual([]);
+  });
+  test('simplify reports every restriction violation', () => {
+    const file = unified()
+      .use(rngParse)
+      .use(rngSimplify)
+      .use(rngStringify)
+      .processSync(
+        new VFile({
+          path: 'doc.rnc',
+          value: 'element doc { (text, token), list { list { token } } }',
+        }),
+      );
+    expect(file.messages.map((m) => m.ruleId)).toEqual([
+      'prohibited-path',
+      'string-sequence',
+    ]);
+    expect(file.messages.every((m) => m.fatal)).toBe(true);
+  });
+  test('simplify fails on grammars that cannot be simplified', () => {
+    const file = new VFile({
+      path: 'doc.rnc',
+      value: 'start = element doc { ref }',
+    });
+    const processor = unified().use(rngParse).use(rngSimplify);
+    expect(() => processor.runSync(processor.parse(file), file)).toThrow(
+      'Reference to undefined define: ref',
+    );
+    expect(file.messages.map((m) => m.ruleId)).toEqual(['undefined-reference']);
+  });
+  test('validate reports problems at the nodes of the document', () => {
+    const grammar = parseRelaxNgCompact(
+      'start = doc\ndoc = element doc { para* }\npara = element p { text }',
+    );
+    const file = new VFile({ path: 'doc.xml' });
+    const tree = fromXml('<doc><p>a</p><q/></doc>');
+    unified().use(rngValidate, { grammar }).runSync(tree, file);
+    expect(file.messages).toHaveLength(1);
+    const [message] = file.messages;
+    expect(message.reason).toEqual('Unexpected element: q');
+    expect(message.ruleId).toEqual('unexpected-element');
+    expect(message.fatal).toBe(true);
+    expect(message.note).toEqual('In define doc');
+    expect(message.place).toEqual({
+      start: { line: 1, column: 14, offset: 13 },
+      end: { line: 1, column: 18, offset: 17 },
+    });
+  });
+  test('validate requires a document element', () => {
+    const grammar = parseRelaxNgCompact('start = element doc { empty }');
+    const file = new VFile();
+    unified().use(rngValidate, { grammar }).runSync(x(null), file);
+    expect(file.messages.map((m) => [m.ruleId, m.reason])).toEqual([
+      ['missing-document-element', 'Expected a document element'],
+    ]);
+  });
+  test('validate fails on grammars that the validator cannot handle', () => {
+    const resolver = mapResolver({
+      'base.rnc': 'doc = element doc { empty }',
+    });
+    const included = parseRelaxNgCompact('start = doc\ninclude "base.rnc"', {
+      resolver,
+    });
+    const interleaved = parseRelaxNgCompact(
+      'start = element doc { element a { empty } & element b { empty } }',
+    );
+    for (const [grammar, reason] of [
+      [included, 'Should not have multiple starts'],
+      [interleaved, 'Unhandled validateDetails: interleave'],
+    ] as const) {
+      const file = new VFile({ path: 'doc.xml' });
+      const processor = unified().use(rngValidate, { grammar });
+      expect(() =>
+        processor.runSync(fromXml('<doc><b/><a/></doc>'), file),
+      ).toThrow(reason);
+      expect(file.messages.map((m) => [m.reason, m.fatal])).toEqual([
+        [reason, true],
+      ]);
+    }
+  });
+  test('validate reports the problems of each run once', () => {
+    const grammar = parseRelaxNgCompact('start = element doc { empty }');
+    const processor = unified().use(rngValidate, { grammar });
+    const tree = fromXml('<doc><p/></doc>');
+    const first = new VFile();
+    processor.runSync(tree, first);
+    const second = new VFile();
+    processor.runSync(tree, second);
+    expect(first.messages).toHaveLength(2);
+    expect(second.messages.map((m) => m.reason)).toEqual(
+      first.messages.map((m) => m.reason),
+    );
+  });
+});
@@ -2,16 +2,22 @@ import { expect, test, describe } from 'vitest';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { x } from 'xastscript';
-import { XastNode } from 'xast';
+import { Element, XastNode } from 'xast';
 import { fromXml } from 'xast-util-from-xml';
 import {
   collectProblems,
   expected,
   RelaxNgValidator,
 } from '../src/rngast-validate';
-import { parsePreTextSpec } from '../src/xast-to-rngast';
+import { parsePreTextSpec, parseRelaxNg } from '../src/xast-to-rngast';
 import * as r from '../src/relaxng-builder';
-import { Pattern } from '../src/rngast';
+import { AttributeNamed, Pattern, RngRoot } from '../src/rngast';
+import { RngValidationError } from '../src/errors';
+import {
+  defaultDatatypeLibraries,
+  defineDatatype,
+  XSD_DATATYPES,
+} from '../src/datatypes';
 
 const specPath = readFileSync(
   join(__dirname, '..', 'src', 'pretext.rng'),
@@ -21,10 +27,21 @@ const ptxExample = fromXml(
   readFileSync(join(__dirname, 'example.ptx'), 'utf-8'),
 );
 
+const MATHML = 'http://www.w3.org/1998/Math/MathML';
+const SVG = 'http://www.w3.org/2000/svg';
+
+// A data pattern with a type from the XML Schema library
+function xsd(...args: Parameters<typeof r.data>) {
+  return { ...r.data(...args), datatypeLibrary: XSD_DATATYPES };
+}
+
 // writeFileSync(join(__dirname, '..','spec.json'), JSON.stringify(parsePreTextSpec(specPath)))
 
-function expectErrorMatch(problems: [unknown, string][], errors: string[]) {
-  problems.forEach((p) => expect(errors).toContain(p[1]));
+function expectErrorMatch(
+  problems: [unknown, RngValidationError][],
+  errors: string[],
+) {
+  problems.forEach((p) => expect(errors).toContain(p[1].reason));
   expect(problems.length).toEqual(errors.length);
 }
 
@@ -220,6 +237,316 @@ describe('Validator', () => {
     expect(ok).toBeTruthy();
     expectErrorMatch(problems, []);
   });
+  test('matches attribute tokens against a list', () => {
+    const [ok, problems] = check(
+      x('p', { class: 'wide  centered' }),
+      r.elemNamed(
+        'p',
+        r.attrNamed(
+          'class',
+          r.list(r.oneOrMore(r.choice(r.value('wide'), r.value('centered')))),
+        ),
+      ),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, []);
+  });
+  test('detects attribute tokens that do not match a list', () => {
+    const [ok, problems] = check(
+      x('p', { coords: '1 2 3' }),
+      r.elemNamed(
+        'p',
+        r.attrNamed('coords', r.list(xsd('integer'), xsd('integer'))),
+      ),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, [expected.list('1 2 3')]);
+  });
+  test('matches attribute values against any content pattern', () => {
+    const spec = r.elemNamed(
+      'p',
+      r.attrNamed(
+        'align',
+        r.choice(
+          r.group(r.value('left'), r.empty()),
+          r.data('token', [], r.except(r.value('middle'), r.value('none'))),
+        ),
+      ),
+    );
+    expectErrorMatch(check(x('p', { align: ' left ' }), spec)[1], []);
+    expectErrorMatch(check(x('p', { align: 'right' }), spec)[1], []);
+    expectErrorMatch(check(x('p', { align: 'none' }), spec)[1], [
+      expected.noMatch(),
+    ]);
+  });
+  test('matches empty attribute values', () => {
+    const spec = r.elemNamed(
+      'p',
+      r.attrNamed('hidden', r.choice(r.empty(), r.value('hidden'))),
+    );
+    expectErrorMatch(check(x('p', { hidden: '' }), spec)[1], []);
+    expectErrorMatch(check(x('p', { hidden: 'hidden' }), spec)[1], []);
+    expectErrorMatch(check(x('p', { hidden: 'no' }), spec)[1], [
+      expected.noMatch(),
+    ]);
+  });
+  test('rejects every attribute value for notAllowed', () => {
+    const [, problems] = check(
+      x('p', { style: 'bold' }),
+      r.elemNamed('p', r.attrNamed('style', r.notAllowed())),
+    );
+    expectErrorMatch(problems, [expected.notAllowed()]);
+  });
+  test('matches text content tokens against a list', () => {
+    const [ok, problems] = check(
+      x('coords', '1 2 cm'),
+      r.elemNamed('coords', r.list(r.oneOrMore(xsd('integer')), r.value('cm'))),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, []);
+  });
+  test('detects text content tokens that do not match a list', () => {
+    const [ok, problems] = check(
+      x('coords', '1 2 mm'),
+      r.elemNamed('coords', r.list(r.oneOrMore(xsd('integer')), r.value('cm'))),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, [expected.list('1 2 mm')]);
+  });
+  test('matches prefixed attributes by namespace', () => {
+    const [ok, problems] = check(
+      x('p', { 'xml:id': 'intro' }),
+      r.elemNamed('p', r.attrNamed('xml:id')),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, []);
+  });
+  test('matches elements by namespace rather than prefix', () => {
+    const math = { ...r.elemNamed('math', r.empty()), ns: MATHML };
+    const [ok, problems] = check(
+      x('sec', { 'xmlns:mml': MATHML }, [x('mml:math')]),
+      r.elemNamed('sec', math),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, []);
+  });
+  test('detects elements in the wrong namespace', () => {
+    const math = { ...r.elemNamed('math', r.empty()), ns: MATHML };
+    const [ok, problems] = check(
+      x('sec', { xmlns: 'urn:other' }, [x('math')]),
+      { ...r.elemNamed('sec', math), ns: 'urn:other' },
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, [
+      expected.elem(`{${MATHML}}math`, 'math'),
+      expected.unexpectedElem('math'),
+    ]);
+  });
+  test('matches any element in a namespace with nsName', () => {
+    const [ok, problems] = check(
+      x('figure', [x('svg:svg', { 'xmlns:svg': SVG })]),
+      r.elemNamed(
+        'figure',
+        r.elem(r.nsName(SVG, r.name('script', SVG)), r.empty()),
+      ),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, []);
+  });
+  test('detects names excluded from nsName', () => {
+    const [ok, problems] = check(
+      x('figure', { 'xmlns:svg': SVG }, [x('svg:script')]),
+      r.elemNamed(
+        'figure',
+        r.elem(r.nsName(SVG, r.name('script', SVG)), r.empty()),
+      ),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, [
+      expected.elem(`any name in ${SVG}`, 'svg:script'),
+      expected.unexpectedElem('svg:script'),
+    ]);
+  });
+  test('matches elements against parsed name classes', () => {
+    const root = parseRelaxNg(`
+      <element name="div">
+        <element><anyName><except><name>script</name></except></anyName><empty/></element>
+      </element>`);
+    const spec = root.children[0];
+    expectErrorMatch(check(x('div', [x('span')]), spec)[1], []);
+    expectErrorMatch(check(x('div', [x('script')]), spec)[1], [
+      expected.elem('any name', 'script'),
+      expected.unexpectedElem('script'),
+    ]);
+  });
+  test('checks element text against a datatype', () => {
+    const [ok, problems] = check(
+      x('year', '2024'),
+      r.elemNamed('year', xsd('gYear')),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, []);
+  });
+  test('detects element text that is not of the datatype', () => {
+    const [ok, problems] = check(
+      x('count', 'three'),
+      r.elemNamed('count', xsd('nonNegativeInteger')),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, [expected.data('nonNegativeInteger', 'three')]);
+  });
+  test('checks attribute values against datatype params', () => {
+    const spec = r.elemNamed(
+      'image',
+      r.attrNamed(
+        'width',
+        xsd('decimal', [
+          r.param('minExclusive', '0'),
+          r.param('maxInclusive', '100'),
+        ]),
+      ),
+    );
+    expectErrorMatch(check(x('image', { width: '12.5' }), spec)[1], []);
+    expectErrorMatch(check(x('image', { width: '0' }), spec)[1], [
+      expected.data('decimal', '0'),
+    ]);
+  });
+  test('excludes the values of an except', () => {
+    const spec = r.elemNamed(
+      'label',
+      xsd('NCName', [], r.except(r.value('none'), r.value('auto'))),
+    );
+    expectErrorMatch(check(x('label', 'intro'), spec)[1], []);
+    expectErrorMatch(check(x('label', 'auto'), spec)[1], [
+      expected.data('NCName', 'auto'),
+    ]);
+  });
+  test('compares values as values of their datatype', () => {
+    const spec = r.elemNamed('count', {
+      ...r.value('1', 'integer'),
+      datatypeLibrary: XSD_DATATYPES,
+    });
+    expectErrorMatch(check(x('count', '01'), spec)[1], []);
+    expectErrorMatch(check(x('count', ' +1 '), spec)[1], []);
+    expectErrorMatch(check(x('count', '2'), spec)[1], [
+      expected.value('1', '2'),
+    ]);
+  });
+  test('uses the built-in library without a datatypeLibrary', () => {
+    const [ok, problems] = check(
+      x('name', ' any text '),
+      r.elemNamed('name', r.data('token')),
+    );
+    expect(ok).toBeTruthy();
+    expectErrorMatch(problems, []);
+    expect(() =>
+      check(x('n', '1'), r.elemNamed('n', r.data('integer'))),
+    ).toThrow('Unknown datatype integer in library ');
+  });
+  test('uses custom datatype libraries', () => {
+    const datatypes = defaultDatatypeLibraries();
+    datatypes['urn:latex'] = {
+      length: defineDatatype({
+        name: 'length',
+        lexical: /^-?(\d+(\.\d*)?|\.\d+)(pt|mm|cm|in|em|ex)$/,
+      }),
+    };
+    const validator = new RelaxNgValidator(spec, { datatypes });
+    const width = {
+      ...r.data('length'),
+      datatypeLibrary: 'urn:latex',
+    };
+    const node = x('sidebyside', { width: '4.5cm' });
+    const wrongNode = x('sidebyside', { width: '4.5' });
+    expect(
+      validator.validateNode(
+        node,
+        r.elemNamed('sidebyside', r.attrNamed('width', width)),
+      ),
+    ).toBeTruthy();
+    expectErrorMatch(collectProblems(node), []);
+    validator.validateNode(
+      wrongNode,
+      r.elemNamed('sidebyside', r.attrNamed('width', width)),
+    );
+    expectErrorMatch(collectProblems(wrongNode), [
+      expected.data('length', '4.5'),
+    ]);
+  });
+  test('records positioned messages with the failing define', () => {
+    const grammar = parseRelaxNg(`
+      <grammar>
+        <start><ref name="section"/></start>
+        <define name="section">
+          <element name="section"><attribute name="id"/><ref name="title"/></element>
+        </define>
+        <define name="title"><element name="title"><text/></element></define>
+      </grammar>`);
+    const validator = new RelaxNgValidator(grammar);
+    const doc = fromXml('<section><heading/></section>');
+    validator.validate(doc.children[0]);
+    const messages = collectProblems(doc).map(([, message]) => message);
+    expect(
+      messages.map((m) => [m.code, m.define, m.place && 'start' in m.place]),
+    ).toEqual([
+      ['missing-attribute', 'section', true],
+      ['expected-element', 'title', true],
+      ['unexpected-element', 'section', true],
+    ]);
+    const [, wrongName] = messages;
+    expect(wrongName).toBeInstanceOf(RngValidationError);
+    expect(wrongName.reason).toEqual(expected.elem('title', 'heading'));
+    expect(wrongName.fatal).toBe(true);
+    expect(wrongName.ruleId).toEqual('expected-element');
+    expect(wrongName.place).toEqual({
+      start: { line: 1, column: 10, offset: 9 },
+      end: { line: 1, column: 20, offset: 19 },
+    });
+    // The records on the tree are plain data
+    const section = doc.children[0] as Element;
+    expect(JSON.parse(JSON.stringify(section.children[0].data))).toEqual({
+      validation: [
+        {
+          code: 'expected-element',
+          reason: expected.elem('title', 'heading'),
+          define: 'title',
+        },
+        {
+          code: 'unexpected-element',
+          reason: expected.unexpectedElem('heading'),
+          define: 'section',
+        },
+      ],
+    });
+  });
+  test('gives the define of patterns made while matching', () => {
+    // Attributes without content default to text
+    const id: AttributeNamed = {
+      type: 'attributeNamed',
+      name: 'id',
+      children: [],
+    };
+    const grammar: RngRoot = {
+      type: 'root',
+      children: [
+        r.grammar(
+          r.start(r.ref('item')),
+          r.define('item', r.elemNamed('item', id)),
+        ),
+      ],
+    };
+    const validator = new RelaxNgValidator(grammar);
+    const item: Element = {
+      type: 'element',
+      name: 'item',
+      attributes: { id: null },
+      children: [],
+    };
+    validator.validate(item);
+    expect(collectProblems(item).map(([, m]) => [m.code, m.define])).toEqual([
+      ['invalid-attribute', 'item'],
+    ]);
+  });
   // The next test is meant to be a "catchall"
   test('works on example doc', () => {
     const ok = checker.validate(ptxExample.children[0]);
@@ -0,0 +1,518 @@
+// Datatype libraries check the strings matched by <data> patterns, and
+// compare the strings of <value> patterns.
+// Libraries are identified by URI, the datatypeLibrary of the pattern,
+// and provide datatypes by their local name.
+// https://relaxng.org/spec-20011203.html#data-pattern
+// XML Schema datatypes follow https://relaxng.org/xsd-20010907.html
+
+import { Param } from './rngast';
+
+export const XSD_DATATYPES = 'http://www.w3.org/2001/XMLSchema-datatypes';
+
+export interface Datatype {
+  // Whether the string is a value of the datatype, as restricted by the
+  // params. Throws for params that the datatype does not support.
+  allows(value: string, params: Param[]): boolean;
+  // Whether the strings are the same value of the datatype. Strings that
+  // are not values of the datatype equal nothing.
+  equals(a: string, b: string): boolean;
+}
+
+// The datatypes of a library by their local names
+export type DatatypeLibrary = Record<string, Datatype>;
+// Datatype libraries by their URI
+export type DatatypeLibraries = Record<string, DatatypeLibrary>;
+
+// Describes a datatype for defineDatatype. Facets that depend on a
+// comparison or a length are only supported if the description has one.
+export interface DatatypeSpec {
+  name: string;
+  // How whitespace in a value is normalized before it is checked.
+  // Defaults to collapse.
+  whiteSpace?: 'preserve' | 'replace' | 'collapse';
+  // The normalized values of the datatype. Defaults to any string.
+  lexical?: RegExp | ((value: string) => boolean);
+  // Orders values, for the min/max inclusive/exclusive facets
+  compare?: (a: string, b: string) => number;
+  // Measures values, for the length, minLength and maxLength facets
+  length?: (value: string) => number;
+  // Whether the totalDigits and fractionDigits facets apply
+  digits?: boolean;
+  // Whether normalized values are equal. Defaults to an order of 0, or to
+  // equal strings for datatypes without an order.
+  equals?: (a: string, b: string) => boolean;
+}
+
+// Creates a datatype that supports the XML Schema facets: pattern, and
+// whichever of the ordering, length and digits facets the spec allows
+export function defineDatatype(spec: DatatypeSpec): Datatype {
+  const whiteSpace = spec.whiteSpace ?? 'collapse';
+  const lexical = spec.lexical ?? (() => true);
+  const isLexical =
+    typeof lexical == 'function'
+      ? lexical
+      : (value: string) => lexical.test(value);
+  const allowsFacet = (value: string, param: Param): boolean => {
+    switch (param.name) {
+      case 'pattern':
+        return xsdRegExp(param.value).test(value);
+      case 'length':
+      case 'minLength':
+      case 'maxLength': {
+        if (spec.length == undefined) break;
+        const length = spec.length(value);
+        const bound = Number(param.value);
+        if (param.name == 'length') return length == bound;
+        if (param.name == 'minLength') return length >= bound;
+        return length <= bound;
+      }
+      case 'minInclusive':
+      case 'minExclusive':
+      case 'maxInclusive':
+      case 'maxExclusive': {
+        if (spec.compare == undefined) break;
+        const bound = normalizeWhiteSpace(param.value, whiteSpace);
+        if (!isLexical(bound))
+          throw new Error(`Invalid ${param.name} for ${spec.name}: ${bound}`);
+        const order = spec.compare(value, bound);
+        if (param.name == 'minInclusive') return order >= 0;
+        if (param.name == 'minExclusive') return order > 0;
+        if (param.name == 'maxInclusive') return order <= 0;
+        return order < 0;
+      }
+      case 'totalDigits':
+      case 'fractionDigits': {
+        if (!spec.digits) break;
+        const [intPart, fracPart] = decimalParts(value);
+        const digits =
+          param.name == 'fractionDigits'
+            ? fracPart.length
+            : Math.max(intPart.length + fracPart.length, 1);
+        return digits <= Number(param.value);
+      }
+    }
+    throw new Error(`Unsupported param ${param.name} for ${spec.name}`);
+  };
+  const compare = spec.compare;
+  const equals =
+    spec.equals ??
+    (compare
+      ? (a: string, b: string) => compare(a, b) == 0
+      : (a: string, b: string) => a == b);
+  return {
+    allows(value: string, params: Param[]): boolean {
+      const normalized = normalizeWhiteSpace(value, whiteSpace);
+      // Every param is checked, so that unsupported ones are reported
+      const facetsOk = params
+        .map((param) => allowsFacet(normalized, param))
+        .every((ok) => ok);
+      return isLexical(normalized) && facetsOk;
+    },
+    equals(a: string, b: string): boolean {
+      const [normalizedA, normalizedB] = [a, b].map((value) =>
+        normalizeWhiteSpace(value, whiteSpace),
+      );
+      return (
+        isLexical(normalizedA) &&
+        isLexical(normalizedB) &&
+        equals(normalizedA, normalizedB)
+      );
+    },
+  };
+}
+
+function normalizeWhiteSpace(
+  value: string,
+  whiteSpace: DatatypeSpec['whiteSpace'],
+): string {
+  switch (whiteSpace) {
+    case 'preserve':
+      return value;
+    case 'replace':
+      return value.replace(/[\t\n\r]/g, ' ');
+    default:
+      return value.replace(/[\t\n\r ]+/g, ' ').trim();
+  }
+}
+
+// The characters that can start an XML name, other than ':', and the
+// further characters that can occur within one. The combining characters
+// come first, since they may not follow other characters in a class.
+export const NAME_START_CHARS =
+  'A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D' +
+  '\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF' +
+  '\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\u{10000}-\\u{EFFFF}';
+export const NAME_CHARS =
+  '\\u0300-\\u036F' + NAME_START_CHARS + '\\-.0-9\\u00B7\\u203F-\\u2040';
+const NC_NAME = `[${NAME_START_CHARS}][${NAME_CHARS}]*`;
+const nameClassEscapes: Record<string, string> = {
+  i: ':' + NAME_START_CHARS,
+  c: NAME_CHARS + ':',
+};
+
+const regExpCache = new Map<string, RegExp>();
+
+// Translates an XML Schema regular expression to an equivalent anchored
+// JavaScript one. XML Schema patterns always match the whole value, have
+// no ^ and $ anchors and use \i and \c for XML name characters.
+// Character class subtraction is not supported.
+function xsdRegExp(pattern: string): RegExp {
+  const cached = regExpCache.get(pattern);
+  if (cached) return cached;
+  let source = '';
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch == '\\') {
+      const next = pattern[++i] ?? '';
+      const chars = nameClassEscapes[next.toLowerCase()];
+      if (chars == undefined) {
+        source += ch + next;
+      } else if (next == next.toLowerCase()) {
+        source += inClass ? chars : `[${chars}]`;
+      } else if (!inClass) {
+        source += `[^${chars}]`;
+      } else {
+        throw new Error(`Unsupported pattern: ${pattern}`);
+      }
+    } else if (inClass) {
+      if (ch == '-' && pattern[i + 1] == '[')
+        throw new Error(`Unsupported pattern: ${pattern}`);
+      if (ch == ']') inClass = false;
+      source += ch;
+    } else {
+      if (ch == '[') inClass = true;
+      source += ch == '^' || ch == '$' ? '\\' + ch : ch;
+    }
+  }
+  const regExp = new RegExp(`^(?:${source})$`, 'u');
+  regExpCache.set(pattern, regExp);
+  return regExp;
+}
+
+// Splits a decimal into its integer and fraction digits, without
+// insignificant zeros
+function decimalParts(value: string): [string, string] {
+  const [intPart, fracPart = ''] = value.replace(/^[+-]/, '').split('.');
+  return [intPart.replace(/^0+/, ''), fracPart.replace(/0+$/, '')];
+}
+
+// Compares decimals exactly, digit by digit
+function compareDecimals(a: string, b: string): number {
+  const signOf = (value: string, [intPart, fracPart]: [string, string]) =>
+    intPart == '' && fracPart == '' ? 0 : value.startsWith('-') ? -1 : 1;
+  const partsA = decimalParts(a);
+  const partsB = decimalParts(b);
+  const signA = signOf(a, partsA);
+  const signB = signOf(b, partsB);
+  if (signA != signB || signA == 0) return signA - signB;
+  const [intA, fracA] = partsA;
+  const [intB, fracB] = partsB;
+  let order = intA.length - intB.length;
+  if (order == 0) order = intA < intB ? -1 : intA > intB ? 1 : 0;
+  if (order == 0) order = fracA < fracB ? -1 : fracA > fracB ? 1 : 0;
+  return signA * order;
+}
+
+function parseFloatValue(value: string): number {
+  if (value == 'INF') return Infinity;
+  if (value == '-INF') return -Infinity;
+  return Number(value);
+}
+
+// NaN is not ordered with respect to any value
+function compareFloats(a: string, b: string): number {
+  return parseFloatValue(a) - parseFloatValue(b);
+}
+
+// Unlike in the order, NaN is equal to itself
+function equalFloats(a: string, b: string): boolean {
+  const [x, y] = [parseFloatValue(a), parseFloatValue(b)];
+  return x == y || (isNaN(x) && isNaN(y));
+}
+
+const DECIMAL = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const INTEGER = /^[+-]?\d+$/;
+const FLOAT = /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|-?INF|NaN)$/;
+
+// An integer type whose values lie in the range from min to max
+function integerType(name: string, min?: string, max?: string): Datatype {
+  return defineDatatype({
+    name,
+    lexical: (value) =>
+      INTEGER.test(value) &&
+      (min == undefined || compareDecimals(value, min) >= 0) &&
+      (max == undefined || compareDecimals(value, max) <= 0),
+    compare: compareDecimals,
+    digits: true,
+  });
+}
+
+function stringType(
+  name: string,
+  whiteSpace: DatatypeSpec['whiteSpace'],
+  lexical?: RegExp,
+): Datatype {
+  return defineDatatype({
+    name,
+    whiteSpace,
+    lexical,
+    length: (value) => Array.from(value).length,
+  });
+}
+
+// A whitespace separated list of items of the given lexical form
+function listType(name: string, item: string): Datatype {
+  return defineDatatype({
+    name,
+    lexical: new RegExp(`^${item}( ${item})*$`, 'u'),
+    length: (value) => value.split(' ').length,
+  });
+}
+
+// The parts of dates and times. The timezone is in minutes.
+interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  timezone: number;
+}
+type DateTimeField = Exclude<keyof DateTimeParts, 'timezone'>;
+
+const YEAR = '(-?(?:[1-9]\\d{4,}|\\d{4}))';
+const TWO_DIGITS = '(\\d{2})';
+const SECONDS = '(\\d{2}(?:\\.\\d+)?)';
+const TIMEZONE = '(Z|[+-]\\d{2}:\\d{2})?';
+
+// A date or time format, as a regular expression whose groups are the
+// fields in order, followed by the timezone
+function dateTimeFormat(
+  source: string,
+  fields: DateTimeField[],
+): (value: string) => DateTimeParts | undefined {
+  const regExp = new RegExp(`^${source}${TIMEZONE}$`);
+  return (value) => {
+    const match = regExp.exec(value);
+    if (!match) return undefined;
+    // Fields that are not in the format take values that fit any date
+    const parts: DateTimeParts = {
+      year: 2000,
+      month: 1,
+      day: 1,
+      hour: 0,
+      minute: 0,
+      second: 0,
+      timezone: 0,
+    };
+    fields.forEach((field, i) => (parts[field] = Number(match[i + 1])));
+    const timezone = match[fields.length + 1];
+    if (timezone != undefined && timezone != 'Z') {
+      const [hours, minutes] = timezone.slice(1).split(':').map(Number);
+      if (hours * 60 + minutes > 14 * 60 || minutes > 59) return undefined;
+      parts.timezone = (timezone[0] == '-' ? -1 : 1) * (hours * 60 + minutes);
+    }
+    if (!isValidDateTime(parts, fields.includes('year'))) return undefined;
+    return parts;
+  };
+}
+
+function isValidDateTime(parts: DateTimeParts, hasYear: boolean): boolean {
+  const { year, month, day, hour, minute, second } = parts;
+  // Without a year, February 29th is allowed
+  const isLeap =
+    !hasYear || (year % 4 == 0 && (year % 100 != 0 || year % 400 == 0));
+  const daysInMonth = [
+    31,
+    isLeap ? 29 : 28,
+    31,
+    30,
+    31,
+    30,
+    31,
+    31,
+    30,
+    31,
+    30,
+    31,
+  ];
+  const isMidnight = hour == 24 && minute == 0 && second == 0;
+  return (
+    year != 0 &&
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= daysInMonth[month - 1] &&
+    (hour < 24 || isMidnight) &&
+    minute < 60 &&
+    second < 60
+  );
+}
+
+function timeOnLine(parts: DateTimeParts): number {
+  const date = new Date(0);
+  date.setUTCFullYear(parts.year, parts.month - 1, parts.day);
+  date.setUTCHours(parts.hour, parts.minute - parts.timezone, 0, 0);
+  return date.getTime() + parts.second * 1000;
+}
+
+function dateTimeType(
+  name: string,
+  source: string,
+  fields: DateTimeField[],
+): Datatype {
+  const parse = dateTimeFormat(source, fields);
+  return defineDatatype({
+    name,
+    lexical: (value) => parse(value) != undefined,
+    compare: (a, b) => timeOnLine(parse(a)!) - timeOnLine(parse(b)!),
+  });
+}
+
+const DATE = `${YEAR}-${TWO_DIGITS}-${TWO_DIGITS}`;
+const TIME = `${TWO_DIGITS}:${TWO_DIGITS}:${SECONDS}`;
+const BASE64 = /^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+// The datatypes of the built-in library, with the empty URI
+export const builtinDatatypes: DatatypeLibrary = {
+  string: noParams('string', 'preserve'),
+  token: noParams('token', 'collapse'),
+};
+
+function noParams(
+  name: string,
+  whiteSpace: DatatypeSpec['whiteSpace'],
+): Datatype {
+  const datatype = defineDatatype({ name, whiteSpace });
+  return {
+    allows(value: string, params: Param[]): boolean {
+      if (params.length > 0)
+        throw new Error(`Unsupported param ${params[0].name} for ${name}`);
+      return datatype.allows(value, params);
+    },
+    equals: datatype.equals,
+  };
+}
+
+// The XML Schema datatypes
+export const xsdDatatypes: DatatypeLibrary = {
+  string: stringType('string', 'preserve'),
+  normalizedString: stringType('normalizedString', 'replace'),
+  token: stringType('token', 'collapse'),
+  language: stringType(
+    'language',
+    'collapse',
+    /^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/,
+  ),
+  Name: stringType(
+    'Name',
+    'collapse',
+    new RegExp(`^[:${NAME_START_CHARS}][${NAME_CHARS}:]*$`, 'u'),
+  ),
+  NCName: stringType('NCName', 'collapse', new RegExp(`^${NC_NAME}$`, 'u')),
+  QName: stringType(
+    'QName',
+    'collapse',
+    new RegExp(`^(${NC_NAME}:)?${NC_NAME}$`, 'u'),
+  ),
+  NMTOKEN: stringType(
+    'NMTOKEN',
+    'collapse',
+    new RegExp(`^[${NAME_CHARS}:]+$`, 'u'),
+  ),
+  NMTOKENS: listType('NMTOKENS', `[${NAME_CHARS}:]+`),
+  ID: stringType('ID', 'collapse', new RegExp(`^${NC_NAME}$`, 'u')),
+  IDREF: stringType('IDREF', 'collapse', new RegExp(`^${NC_NAME}$`, 'u')),
+  IDREFS: listType('IDREFS', NC_NAME),
+  ENTITY: stringType('ENTITY', 'collapse', new RegExp(`^${NC_NAME}$`, 'u')),
+  ENTITIES: listType('ENTITIES', NC_NAME),
+  // Almost any string is a URI reference. Only spaces and multiple
+  // fragment identifiers are excluded.
+  anyURI: stringType('anyURI', 'collapse', /^[^\s#]*(#[^\s#]*)?$/),
+  boolean: defineDatatype({
+    name: 'boolean',
+    lexical: /^(true|false|1|0)$/,
+    equals: (a, b) => (a == 'true' || a == '1') == (b == 'true' || b == '1'),
+  }),
+  decimal: defineDatatype({
+    name: 'decimal',
+    lexical: DECIMAL,
+    compare: compareDecimals,
+    digits: true,
+  }),
+  integer: integerType('integer'),
+  nonPositiveInteger: integerType('nonPositiveInteger', undefined, '0'),
+  negativeInteger: integerType('negativeInteger', undefined, '-1'),
+  long: integerType('long', '-9223372036854775808', '9223372036854775807'),
+  int: integerType('int', '-2147483648', '2147483647'),
+  short: integerType('short', '-32768', '32767'),
+  byte: integerType('byte', '-128', '127'),
+  nonNegativeInteger: integerType('nonNegativeInteger', '0'),
+  unsignedLong: integerType('unsignedLong', '0', '18446744073709551615'),
+  unsignedInt: integerType('unsignedInt', '0', '4294967295'),
+  unsignedShort: integerType('unsignedShort', '0', '65535'),
+  unsignedByte: integerType('unsignedByte', '0', '255'),
+  positiveInteger: integerType('positiveInteger', '1'),
+  float: defineDatatype({
+    name: 'float',
+    lexical: FLOAT,
+    compare: compareFloats,
+    equals: equalFloats,
+  }),
+  double: defineDatatype({
+    name: 'double',
+    lexical: FLOAT,
+    compare: compareFloats,
+    equals: equalFloats,
+  }),
+  duration: defineDatatype({
+    name: 'duration',
+    lexical:
+      /^-?P(?=.)(\d+Y)?(\d+M)?(\d+D)?(T(?=.)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/,
+  }),
+  dateTime: dateTimeType('dateTime', `${DATE}T${TIME}`, [
+    'year',
+    'month',
+    'day',
+    'hour',
+    'minute',
+    'second',
+  ]),
+  date: dateTimeType('date', DATE, ['year', 'month', 'day']),
+  time: dateTimeType('time', TIME, ['hour', 'minute', 'second']),
+  gYearMonth: dateTimeType('gYearMonth', `${YEAR}-${TWO_DIGITS}`, [
+    'year',
+    'month',
+  ]),
+  gYear: dateTimeType('gYear', YEAR, ['year']),
+  gMonthDay: dateTimeType('gMonthDay', `--${TWO_DIGITS}-${TWO_DIGITS}`, [
+    'month',
+    'day',
+  ]),
+  gDay: dateTimeType('gDay', `---${TWO_DIGITS}`, ['day']),
+  gMonth: dateTimeType('gMonth', `--${TWO_DIGITS}`, ['month']),
+  hexBinary: defineDatatype({
+    name: 'hexBinary',
+    lexical: /^([0-9a-fA-F]{2})*$/,
+    length: (value) => value.length / 2,
+  }),
+  base64Binary: defineDatatype({
+    name: 'base64Binary',
+    lexical: (value) => BASE64.test(value.replace(/ /g, '')),
+    length: (value) => {
+      const chars = value.replace(/[ =]/g, '').length;
+      return Math.floor((chars * 3) / 4);
+    },
+  }),
+};
+
+// The built-in and XML Schema libraries. The libraries are copies, so
+// datatypes can be added to them without affecting other validators.
+export function defaultDatatypeLibraries(): DatatypeLibraries {
+  return {
+    '': { ...builtinDatatypes },
+    [XSD_DATATYPES]: { ...xsdDatatypes },
+  };
+}
@@ -0,0 +1,143 @@
+// Errors reported for Relax NG grammars, and for the documents validated
+// against them
+
+import { Node, Point, Position } from 'unist';
+import { Element } from 'xast';
+import { VFileMessage } from 'vfile-message';
+
+export type RngParseErrorCode =
+  // The grammar is not well-formed XML, or not valid compact syntax
+  | 'invalid-xml'
+  | 'invalid-syntax'
+  // A node appears where a Relax NG element was expected
+  | 'unexpected-node'
+  // An element that is not a Relax NG pattern, or is not allowed where it is
+  | 'unknown-pattern'
+  | 'unknown-name-class'
+  | 'invalid-grammar-content'
+  | 'invalid-data-content'
+  // Problems with the attributes or children of an element
+  | 'missing-attribute'
+  | 'invalid-attribute-value'
+  | 'invalid-children'
+  | 'expected-text'
+  | 'undeclared-prefix'
+  // Problems loading included and referenced resources
+  | 'unresolved-resource'
+  | 'resource-loop'
+  | 'invalid-resource';
+
+export interface RngParseErrorOptions {
+  // The offending element, whose position is used unless place is given
+  element?: Element;
+  place?: Point | Position;
+  // The url of the grammar resource
+  url?: string;
+  cause?: Error;
+}
+
+// A problem in a Relax NG grammar. As a vfile message, it carries the
+// position of the problem, with the code as its ruleId.
+export class RngParseError extends VFileMessage {
+  code: RngParseErrorCode;
+  element?: Element;
+
+  constructor(
+    code: RngParseErrorCode,
+    message: string,
+    options: RngParseErrorOptions = {},
+  ) {
+    super(message, {
+      place: options.place ?? options.element?.position,
+      ruleId: code,
+      source: 'rngast',
+      cause: options.cause,
+    });
+    this.code = code;
+    this.element = options.element;
+    this.file = options.url;
+    this.fatal = true;
+  }
+}
+
+export type RngSchemaErrorCode =
+  // An anyName or nsName in the except of a name class that it would
+  // include (spec 4.16)
+  | 'invalid-except'
+  // An attribute name that is xmlns or in the xmlns namespace (spec 4.16)
+  | 'xmlns-attribute'
+  // Violations of the restrictions on simplified grammars (spec 7.1-7.4)
+  | 'prohibited-path'
+  | 'string-sequence'
+  | 'duplicate-attribute'
+  | 'interleave-overlap'
+  // Refs to undefined defines, and defines that expand to themselves
+  // without going through an element (spec 4.18, 4.19)
+  | 'undefined-reference'
+  | 'reference-loop';
+
+// A grammar that breaks one of the constraints of the Relax NG spec.
+// It points at the offending node, and at its position and url when
+// these are known. The path, when given, describes the nodes from the
+// start or define down to the offending node.
+export class RngSchemaError extends VFileMessage {
+  code: RngSchemaErrorCode;
+  node: Node;
+  path?: string[];
+
+  constructor(
+    code: RngSchemaErrorCode,
+    message: string,
+    node: Node,
+    path?: string[],
+  ) {
+    super(message, { place: node.position, ruleId: code, source: 'rngast' });
+    this.code = code;
+    this.node = node;
+    this.path = path;
+    this.file = node.data?.url;
+    this.fatal = true;
+  }
+}
+
+export type RngValidationErrorCode =
+  // Content that the grammar expects but that is missing or different
+  | 'expected-element'
+  | 'expected-text'
+  | 'missing-attribute'
+  | 'missing-document-element'
+  // Strings that do not match the value, data or list pattern
+  | 'invalid-attribute'
+  | 'invalid-value'
+  | 'invalid-data'
+  | 'invalid-list'
+  // Content that the grammar does not allow
+  | 'unexpected-element'
+  | 'unexpected-attribute'
+  | 'unexpected-text'
+  | 'unexpected-content'
+  | 'not-allowed'
+  | 'no-matching-choice';
+
+// A problem found while validating a document against a grammar. It points
+// at the xast node that the problem is about, and names the define whose
+// pattern the document failed to match, when the pattern is in one.
+export class RngValidationError extends VFileMessage {
+  code: RngValidationErrorCode;
+  node: Node;
+  define?: string;
+
+  constructor(
+    code: RngValidationErrorCode,
+    message: string,
+    node: Node,
+    define?: string,
+  ) {
+    super(message, { place: node.position, ruleId: code, source: 'rngast' });
+    this.code = code;
+    this.node = node;
+    this.define = define;
+    if (define != undefined) this.note = `In define ${define}`;
+    this.fatal = true;
+  }
+}
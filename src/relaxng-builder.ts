@@ -23,8 +23,10 @@ export function text(): R.Text {
   return { type: 'text' };
 }
 
-export function value(value: string): R.Value {
-  return { type: 'value', value: value };
+export function value(value: string, dataType?: string): R.Value {
+  const node: R.Value = { type: 'value', value: value };
+  if (dataType != undefined) node.dataType = dataType;
+  return node;
 }
 
 export function attrNamed(
@@ -41,8 +43,19 @@ export function attr(
   return { type: 'attribute', children: [nameClass, child] };
 }
 
-export function grammar(start: R.Start, defs: R.Define[]): R.Grammar {
-  return { type: 'grammar', children: [start, ...defs] };
+export function grammar(...children: R.GrammarContent[]): R.Grammar {
+  return { type: 'grammar', children: children };
+}
+
+export function include(
+  href: string,
+  ...children: R.IncludeContent[]
+): R.Include {
+  return { type: 'include', href: href, children: children };
+}
+
+export function div(...children: R.GrammarContent[]): R.Div {
+  return { type: 'div', children: children };
 }
 
 export function start(child: R.Pattern): R.Start {
@@ -73,6 +86,10 @@ export function interleave(...children: R.Pattern[]): R.Interleave {
   return { type: 'interleave', children: children };
 }
 
+export function list(...children: R.Pattern[]): R.List {
+  return { type: 'list', children: children };
+}
+
 export function mixed(...children: R.Pattern[]): R.Mixed {
   return { type: 'mixed', children: children };
 }
@@ -81,22 +98,67 @@ export function ref(name: string): R.Ref {
   return { type: 'ref', name: name };
 }
 
+export function parentRef(name: string): R.ParentRef {
+  return { type: 'parentRef', name: name };
+}
+
+export function externalRef(href: string): R.ExternalRef {
+  return { type: 'externalRef', href: href };
+}
+
 export function optional(...children: R.Pattern[]): R.Optional {
   return { type: 'optional', children: children };
 }
 
-function isDataType(s: string): s is R.DataType {
-  return ['integer', 'double', 'string'].includes(s);
+export function data(
+  dataType: string,
+  params: R.Param[] = [],
+  exceptPattern?: R.Except,
+): R.Data {
+  return {
+    type: 'data',
+    dataType: dataType,
+    params: params,
+    children: exceptPattern ? [exceptPattern] : [],
+  };
+}
+
+export function param(name: string, value: string): R.Param {
+  return { type: 'param', name: name, value: value };
+}
+
+export function except(...children: R.Pattern[]): R.Except {
+  return { type: 'except', children: children };
+}
+
+export function name(name: string, ns?: string): R.Name {
+  if (ns == undefined) return { type: 'name', name: name };
+  return { type: 'name', name: name, ns: ns };
+}
+
+export function anyName(...except: R.NameClass[]): R.AnyName {
+  if (except.length == 0) return { type: 'anyName' };
+  return { type: 'anyName', except: exceptNameClass(...except) };
+}
+
+// Without an ns, the namespace is inherited when simplifying
+export function nsName(
+  ns: string | undefined,
+  ...except: R.NameClass[]
+): R.NsName {
+  const node: R.NsName = { type: 'nsName' };
+  if (ns != undefined) node.ns = ns;
+  if (except.length > 0) node.except = exceptNameClass(...except);
+  return node;
 }
 
-export function data(dataType: string): R.Data {
-  if (!isDataType(dataType)) throw new Error(`Unknown data type: ${dataType}`);
-  return { type: 'data', dataType: dataType };
+export function nameChoice(...children: R.NameClass[]): R.NameChoice {
+  return { type: 'nameChoice', children: children };
 }
 
-export function name(name: string): R.NameClass {
-  return { type: 'name', name: name };
+export function exceptNameClass(...children: R.NameClass[]): R.ExceptNameClass {
+  return { type: 'exceptNameClass', children: children };
 }
-export function notAllowed(): import('unist').Node {
+export function notAllowed(): R.NotAllowed {
   return { type: 'notAllowed' };
 }
@@ -0,0 +1,62 @@
+// Resolvers load the grammar resources referenced through href attributes,
+// as in <include href="..."> elements
+
+import { readFileSync } from 'fs';
+import { dirname, posix, resolve } from 'path';
+
+// A loaded resource. The url is the resolved location of the resource, and
+// it is used as the base for any hrefs that the resource itself contains.
+export interface Resource {
+  url: string;
+  content: string;
+}
+
+export interface ResourceResolver {
+  // Resolve href relative to base, the url of the referencing resource
+  resolve(href: string, base?: string): Resource;
+}
+
+// Resolves resources from an in-memory map of url to content.
+// Relative hrefs are looked up relative to the referencing url first.
+export function mapResolver(files: Record<string, string>): ResourceResolver {
+  return {
+    resolve(href: string, base?: string): Resource {
+      const candidates = [href];
+      if (base != undefined && !posix.isAbsolute(href))
+        candidates.unshift(posix.join(posix.dirname(base), href));
+      for (const url of candidates) {
+        if (url in files) return { url, content: files[url] };
+      }
+      throw new Error(`Cannot resolve resource: ${href}`);
+    },
+  };
+}
+
+// Resolves resources from the local file system. Hrefs without a
+// referencing resource are resolved relative to rootDir.
+export function fileSystemResolver(
+  rootDir: string = process.cwd(),
+): ResourceResolver {
+  return {
+    resolve(href: string, base?: string): Resource {
+      const dir = base == undefined ? rootDir : dirname(base);
+      const url = resolve(dir, href);
+      return { url, content: readFileSync(url, 'utf-8') };
+    },
+  };
+}
+
+// Wraps a custom callback. The callback may return just the content,
+// in which case the href is used as the resource url.
+export function callbackResolver(
+  callback: (href: string, base?: string) => Resource | string,
+): ResourceResolver {
+  return {
+    resolve(href: string, base?: string): Resource {
+      const result = callback(href, base);
+      return typeof result == 'string'
+        ? { url: href, content: result }
+        : result;
+    },
+  };
+}
@@ -0,0 +1,970 @@
+// A parser for the compact syntax of Relax NG grammars. It produces the
+// same rngast trees as parsing the equivalent grammar in the XML syntax.
+// See https://relaxng.org/compact-20021121.html
+
+import { Point, Position } from 'unist';
+import { Element as XastElement, ElementContent } from 'xast';
+import {
+  Annotations,
+  CombineMethod,
+  Except,
+  Grammar,
+  GrammarContent,
+  IncludeContent,
+  Name,
+  NameClass,
+  Param,
+  Pattern,
+  RngNode,
+  RngRoot as RelaxNgRoot,
+} from './rngast';
+import * as b from './relaxng-builder';
+import { RngParseError, RngParseErrorCode } from './errors';
+import { Resource } from './resolver';
+import { ANNOTATIONS_NAMESPACE, ParseOptions } from './xast-to-rngast';
+import { XML_NAMESPACE } from './rngast-simplify';
+import { NAME_CHARS, NAME_START_CHARS, XSD_DATATYPES } from './datatypes';
+
+// TOKENS
+type TokenType =
+  | 'literal'
+  // An NCName that is not a keyword, or a keyword escaped with a backslash
+  | 'identifier'
+  | 'keyword'
+  // A prefixed name, prefix:local
+  | 'cname'
+  // A prefixed wildcard, prefix:*, whose value is the prefix
+  | 'nsName'
+  // The text of consecutive ## comment lines
+  | 'documentation'
+  | 'operator'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: Position;
+}
+
+export const KEYWORDS = new Set([
+  'attribute',
+  'default',
+  'datatypes',
+  'div',
+  'element',
+  'empty',
+  'external',
+  'grammar',
+  'include',
+  'inherit',
+  'list',
+  'mixed',
+  'namespace',
+  'notAllowed',
+  'parent',
+  'start',
+  'string',
+  'text',
+  'token',
+]);
+
+const OPERATORS = ['|=', '&=', '>>', ...'{}()[]=,&|?*+-~'];
+
+const NAME_START = new RegExp(`[${NAME_START_CHARS}]`, 'u');
+const NAME_CHAR = new RegExp(`[${NAME_CHARS}]`, 'u');
+
+// Replaces the \x{...} escapes, which may occur anywhere in the source.
+// Returns the characters along with their offsets in the source.
+function decodeEscapes(source: string): [string[], number[]] {
+  const chars: string[] = [];
+  const offsets: number[] = [];
+  const escape = /\\x+\{([0-9A-Fa-f]+)\}/y;
+  let i = 0;
+  while (i < source.length) {
+    offsets.push(i);
+    escape.lastIndex = i;
+    const match = escape.exec(source);
+    if (match) {
+      chars.push(String.fromCodePoint(parseInt(match[1], 16)));
+      i += match[0].length;
+    } else {
+      const ch = String.fromCodePoint(source.codePointAt(i)!);
+      chars.push(ch);
+      i += ch.length;
+    }
+  }
+  offsets.push(source.length);
+  return [chars, offsets];
+}
+
+// Converts offsets in the source to unist points
+function pointLocator(source: string): (offset: number) => Point {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] == '\n') lineStarts.push(i + 1);
+  }
+  return (offset: number) => {
+    // Binary search for the last line starting at or before the offset
+    let [low, high] = [0, lineStarts.length - 1];
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+  };
+}
+
+function tokenize(source: string, url?: string): Token[] {
+  const [chars, offsets] = decodeEscapes(source);
+  const pointAt = pointLocator(source);
+  const tokens: Token[] = [];
+  let i = 0;
+  const error = (message: string, start: number) =>
+    new RngParseError('invalid-syntax', message, {
+      place: pointAt(offsets[start]),
+      url,
+    });
+  const push = (type: TokenType, value: string, start: number) => {
+    const position = {
+      start: pointAt(offsets[start]),
+      end: pointAt(offsets[i]),
+    };
+    tokens.push({ type, value, position });
+  };
+  const isNewline = (ch: string) => ch == '\n' || ch == '\r';
+  const readName = () => {
+    const start = i;
+    while (i < chars.length && NAME_CHAR.test(chars[i])) i++;
+    return chars.slice(start, i).join('');
+  };
+  while (i < chars.length) {
+    const ch = chars[i];
+    const start = i;
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch == '#' && chars[i + 1] == '#') {
+      // Consecutive documentation lines form a single token
+      const lines: string[] = [];
+      let end = i;
+      while (chars[i] == '#' && chars[i + 1] == '#') {
+        while (chars[i] == '#') i++;
+        if (chars[i] == ' ') i++;
+        const lineStart = i;
+        while (i < chars.length && !isNewline(chars[i])) i++;
+        lines.push(chars.slice(lineStart, i).join('').replace(/\s+$/, ''));
+        end = i;
+        while (i < chars.length && /\s/.test(chars[i])) i++;
+      }
+      const next = i;
+      i = end;
+      push('documentation', lines.join('\n'), start);
+      i = next;
+    } else if (ch == '#') {
+      while (i < chars.length && !isNewline(chars[i])) i++;
+    } else if (ch == '"' || ch == "'") {
+      const delimiter =
+        chars.slice(i, i + 3).join('') == ch.repeat(3) ? ch.repeat(3) : ch;
+      i += delimiter.length;
+      const valueStart = i;
+      while (chars.slice(i, i + delimiter.length).join('') != delimiter) {
+        if (i >= chars.length || (delimiter == ch && isNewline(chars[i])))
+          throw error('Unterminated literal', start);
+        i++;
+      }
+      const value = chars.slice(valueStart, i).join('');
+      i += delimiter.length;
+      push('literal', value, start);
+    } else if (ch == '\\' && NAME_START.test(chars[i + 1] ?? '')) {
+      i++;
+      push('identifier', readName(), start);
+    } else if (NAME_START.test(ch)) {
+      const name = readName();
+      if (chars[i] == ':' && chars[i + 1] == '*') {
+        i += 2;
+        push('nsName', name, start);
+      } else if (chars[i] == ':' && NAME_START.test(chars[i + 1] ?? '')) {
+        i++;
+        push('cname', `${name}:${readName()}`, start);
+      } else {
+        push(KEYWORDS.has(name) ? 'keyword' : 'identifier', name, start);
+      }
+    } else {
+      const operator = OPERATORS.find(
+        (op) => chars.slice(i, i + op.length).join('') == op,
+      );
+      if (operator == undefined)
+        throw error(`Unexpected character: ${ch}`, start);
+      i += operator.length;
+      push('operator', operator, start);
+    }
+  }
+  push('eof', '', i);
+  return tokens;
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of file';
+    case 'literal':
+      return `"${token.value}"`;
+    case 'documentation':
+      return 'documentation';
+    case 'nsName':
+      return `${token.value}:*`;
+    default:
+      return token.value;
+  }
+}
+
+// PARSING
+// The urls of the resources currently being loaded, outermost first
+interface CompactContext extends ParseOptions {
+  loading: string[];
+}
+
+// Parses a Relax NG grammar in the compact syntax
+export function parseRelaxNgCompact(
+  rnc: string,
+  options: ParseOptions = {},
+): RelaxNgRoot {
+  return parseCompact(rnc, {
+    ...options,
+    loading: options.url ? [options.url] : [],
+  });
+}
+
+// A grammar with syntax errors matches nothing
+function parseCompact(source: string, ctx: CompactContext): RelaxNgRoot {
+  let pattern: Pattern;
+  try {
+    pattern = new CompactParser(tokenize(source, ctx.url), ctx).parse();
+  } catch (e) {
+    if (ctx.messages == undefined || !(e instanceof RngParseError)) throw e;
+    ctx.messages.push(e);
+    pattern = b.notAllowed();
+  }
+  const pointAt = pointLocator(source);
+  return {
+    type: 'root',
+    children: [pattern],
+    position: { start: pointAt(0), end: pointAt(source.length) },
+  };
+}
+
+class CompactParser {
+  tokens: Token[];
+  ctx: CompactContext;
+  index = 0;
+  // The declared namespace and datatype library prefixes
+  namespaces: Record<string, string> = { xml: XML_NAMESPACE };
+  datatypes: Record<string, string> = { xsd: XSD_DATATYPES };
+  // Undefined when the default namespace is inherited
+  defaultNamespace?: string;
+
+  constructor(tokens: Token[], ctx: CompactContext) {
+    this.tokens = tokens;
+    this.ctx = ctx;
+  }
+
+  // The declarations are recorded on the top pattern, like the ns and
+  // xmlns attributes on the top element of the XML syntax
+  parse(): Pattern {
+    const declared = this.parseDeclarations();
+    const pattern = this.isGrammarContentAhead()
+      ? this.parseTopGrammar()
+      : this.parsePattern();
+    this.expect('eof');
+    if (this.defaultNamespace != undefined) pattern.ns = this.defaultNamespace;
+    if (Object.keys(declared).length > 0) pattern.namespaces = declared;
+    return pattern;
+  }
+
+  // HELPERS
+  private peek(ahead: number = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type != 'eof') this.index++;
+    return token;
+  }
+
+  private at(type: TokenType, value?: string, ahead: number = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type == type && (value == undefined || token.value == value);
+  }
+
+  private accept(type: TokenType, value?: string): Token | undefined {
+    return this.at(type, value) ? this.next() : undefined;
+  }
+
+  private expect(type: TokenType, value?: string): Token {
+    const token = this.accept(type, value);
+    if (token) return token;
+    const wanted = value ?? (type == 'eof' ? 'end of file' : type);
+    throw this.error(`Expected ${wanted} but found ${describe(this.peek())}`);
+  }
+
+  private error(
+    message: string,
+    token: Token = this.peek(),
+    code: RngParseErrorCode = 'invalid-syntax',
+  ): RngParseError {
+    return new RngParseError(code, message, {
+      place: token.position,
+      url: this.ctx.url,
+    });
+  }
+
+  // Throws the error, or records it when recovering
+  private report(error: RngParseError) {
+    if (this.ctx.messages == undefined) throw error;
+    this.ctx.messages.push(error);
+  }
+
+  // Sets the position of the node to span the tokens from start on,
+  // along with the url of the resource
+  private finish<T extends RngNode>(node: T, start: number): T {
+    const first = this.tokens[start].position;
+    const last = this.index > start ? this.tokens[this.index - 1] : undefined;
+    node.position = { start: first.start, end: (last?.position ?? first).end };
+    if (this.ctx.url != undefined)
+      node.data = { ...node.data, url: this.ctx.url };
+    return node;
+  }
+
+  private parseLiteral(): string {
+    let value = this.expect('literal').value;
+    while (this.accept('operator', '~')) value += this.expect('literal').value;
+    return value;
+  }
+
+  private parseIdentOrKeyword(): Token {
+    const token = this.accept('identifier') ?? this.accept('keyword');
+    if (token) return token;
+    throw this.error(`Expected a name but found ${describe(this.peek())}`);
+  }
+
+  private namespaceOf(prefix: string, token: Token): string {
+    if (prefix in this.namespaces) return this.namespaces[prefix];
+    const message = `Undeclared namespace prefix: ${prefix}`;
+    this.report(this.error(message, token, 'undeclared-prefix'));
+    return '';
+  }
+
+  // DECLARATIONS
+  // Returns the namespace prefixes declared in the grammar
+  private parseDeclarations(): Record<string, string> {
+    const declared: Record<string, string> = {};
+    for (;;) {
+      const start = this.index;
+      // Annotations on declarations are not kept
+      this.parseAnnotations();
+      if (this.accept('keyword', 'namespace')) {
+        const prefix = this.parseIdentOrKeyword();
+        this.expect('operator', '=');
+        const uri = this.parseNamespaceUri(prefix);
+        if (uri != undefined) declared[prefix.value] = uri;
+      } else if (this.accept('keyword', 'default')) {
+        this.expect('keyword', 'namespace');
+        const prefix = this.at('operator', '=')
+          ? undefined
+          : this.parseIdentOrKeyword();
+        this.expect('operator', '=');
+        const uri = this.parseNamespaceUri(prefix);
+        this.defaultNamespace = uri;
+        if (prefix && uri != undefined) declared[prefix.value] = uri;
+      } else if (this.accept('keyword', 'datatypes')) {
+        const prefix = this.parseIdentOrKeyword();
+        this.expect('operator', '=');
+        this.datatypes[prefix.value] = this.parseLiteral();
+      } else {
+        this.index = start;
+        return declared;
+      }
+    }
+  }
+
+  // Only the default namespace can be inherited
+  private parseNamespaceUri(prefix?: Token): string | undefined {
+    const inherit = this.accept('keyword', 'inherit');
+    if (inherit && prefix)
+      throw this.error('Only the default namespace can be inherited', inherit);
+    if (inherit) return undefined;
+    const uri = this.parseLiteral();
+    if (prefix) this.namespaces[prefix.value] = uri;
+    return uri;
+  }
+
+  // The namespace inherited by an included or external grammar
+  private parseInherit(): string | undefined {
+    if (!this.accept('keyword', 'inherit')) return this.defaultNamespace;
+    this.expect('operator', '=');
+    const prefix = this.parseIdentOrKeyword();
+    return this.namespaceOf(prefix.value, prefix);
+  }
+
+  // GRAMMAR CONTENT
+  // A grammar starts with start, a definition, div, include or
+  // an annotation element
+  private isGrammarContentAhead(): boolean {
+    let ahead = 0;
+    while (this.at('documentation', undefined, ahead)) ahead++;
+    if (this.at('operator', '[', ahead)) {
+      let depth = 0;
+      do {
+        if (this.at('operator', '[', ahead)) depth++;
+        if (this.at('operator', ']', ahead)) depth--;
+        ahead++;
+      } while (depth > 0 && !this.at('eof', undefined, ahead));
+    }
+    const token = this.peek(ahead);
+    switch (token.type) {
+      case 'eof':
+        return true;
+      case 'keyword':
+        return ['start', 'div', 'include'].includes(token.value);
+      case 'identifier':
+        return ['=', '|=', '&='].some((op) =>
+          this.at('operator', op, ahead + 1),
+        );
+      case 'cname':
+        return this.at('operator', '[', ahead + 1);
+      default:
+        return false;
+    }
+  }
+
+  // A grammar made of the whole file
+  private parseTopGrammar(): Grammar {
+    const start = this.index;
+    const [contents, elements] = this.parseGrammarContents(false);
+    return annotate(this.finish(b.grammar(...contents), start), { elements });
+  }
+
+  // Parses grammar content up to a closing brace or the end of the file.
+  // Annotation elements among the content belong to the enclosing node,
+  // so they are returned separately.
+  private parseGrammarContents(
+    inInclude: boolean,
+  ): [GrammarContent[], XastElement[]] {
+    const contents: GrammarContent[] = [];
+    const elements: XastElement[] = [];
+    while (!this.at('eof') && !this.at('operator', '}')) {
+      const annotations = this.parseAnnotations();
+      if (this.at('cname') && this.at('operator', '[', 1)) {
+        elements.push(this.parseAnnotationElement(this.next()));
+        continue;
+      }
+      const content = this.parseGrammarContent(inInclude);
+      contents.push(annotate(content, annotations));
+    }
+    return [contents, elements];
+  }
+
+  private parseBracedGrammarContents(
+    inInclude: boolean,
+  ): [GrammarContent[], XastElement[]] {
+    this.expect('operator', '{');
+    const result = this.parseGrammarContents(inInclude);
+    this.expect('operator', '}');
+    return result;
+  }
+
+  private parseGrammarContent(inInclude: boolean): GrammarContent {
+    const start = this.index;
+    const token = this.next();
+    if (token.type == 'keyword' && token.value == 'start') {
+      const combine = this.parseAssignMethod();
+      const node = b.start(this.parsePattern());
+      if (combine) node.combine = combine;
+      return this.finish(node, start);
+    }
+    if (token.type == 'identifier') {
+      const combine = this.parseAssignMethod();
+      const node = b.define(token.value, ...unwrapGroup(this.parsePattern()));
+      if (combine) node.combine = combine;
+      return this.finish(node, start);
+    }
+    if (token.type == 'keyword' && token.value == 'div') {
+      const [contents, elements] = this.parseBracedGrammarContents(inInclude);
+      return annotate(this.finish(b.div(...contents), start), { elements });
+    }
+    if (token.type == 'keyword' && token.value == 'include') {
+      if (inInclude)
+        throw this.error(
+          'Include cannot contain include',
+          token,
+          'invalid-grammar-content',
+        );
+      return this.parseInclude(start);
+    }
+    throw this.error(
+      `Expected start, a definition, div or include but found ${describe(token)}`,
+      token,
+      'invalid-grammar-content',
+    );
+  }
+
+  private parseAssignMethod(): CombineMethod | undefined {
+    if (this.accept('operator', '=')) return undefined;
+    if (this.accept('operator', '|=')) return 'choice';
+    if (this.accept('operator', '&=')) return 'interleave';
+    throw this.error(`Expected = but found ${describe(this.peek())}`);
+  }
+
+  private parseInclude(start: number): GrammarContent {
+    const hrefToken = this.peek();
+    const href = this.parseLiteral();
+    const ns = this.parseInherit();
+    const [contents, elements] = this.at('operator', '{')
+      ? this.parseBracedGrammarContents(true)
+      : [[], []];
+    const include = b.include(href, ...(contents as IncludeContent[]));
+    if (ns != undefined) include.ns = ns;
+    const grammar = this.loadGrammar(href, hrefToken);
+    if (grammar) include.grammar = grammar;
+    return annotate(this.finish(include, start), { elements });
+  }
+
+  // PATTERNS
+  // Operators of different kinds cannot be mixed without parentheses
+  private parsePattern(): Pattern {
+    const start = this.index;
+    const first = this.parseParticle();
+    const operator = this.peek();
+    if (!isCombinator(operator)) return first;
+    const children = [first];
+    while (this.accept('operator', operator.value))
+      children.push(this.parseParticle());
+    if (isCombinator(this.peek()))
+      throw this.error(
+        `Cannot mix ${operator.value} and ${this.peek().value} without parentheses`,
+      );
+    const node =
+      operator.value == ','
+        ? b.group(...children)
+        : operator.value == '&'
+          ? b.interleave(...children)
+          : b.choice(...children);
+    return this.finish(node, start);
+  }
+
+  private parseParticle(): Pattern {
+    const start = this.index;
+    let pattern = this.parsePrimary();
+    const repeat =
+      this.accept('operator', '?') ??
+      this.accept('operator', '*') ??
+      this.accept('operator', '+');
+    if (repeat) {
+      const children = unwrapGroup(pattern);
+      const node =
+        repeat.value == '?'
+          ? b.optional(...children)
+          : repeat.value == '*'
+            ? b.zeroOrMore(...children)
+            : b.oneOrMore(...children);
+      pattern = this.finish(node, start);
+    }
+    return this.parseFollowAnnotations(pattern);
+  }
+
+  private parsePrimary(): Pattern {
+    const annotations = this.parseAnnotations();
+    const start = this.index;
+    const token = this.next();
+    switch (token.type) {
+      case 'keyword':
+        return annotate(
+          this.finish(this.parseKeywordPattern(token), start),
+          annotations,
+        );
+      case 'identifier':
+        return annotate(this.finish(b.ref(token.value), start), annotations);
+      case 'cname':
+        return annotate(
+          this.finish(this.parseDatatype(token), start),
+          annotations,
+        );
+      case 'literal':
+        this.index--;
+        return annotate(
+          this.finish(b.value(this.parseLiteral()), start),
+          annotations,
+        );
+      case 'operator':
+        if (token.value == '(') {
+          const pattern = this.parsePattern();
+          this.expect('operator', ')');
+          return annotate(pattern, annotations);
+        }
+    }
+    throw this.error(`Expected a pattern but found ${describe(token)}`, token);
+  }
+
+  private parseKeywordPattern(token: Token): Pattern {
+    switch (token.value) {
+      case 'element': {
+        const nameClass = this.parseNameClass();
+        const content = unwrapGroup(this.parseBracedPattern());
+        return isPlainName(nameClass)
+          ? b.elemNamed(nameClass.name, ...content)
+          : b.elem(nameClass, ...content);
+      }
+      case 'attribute': {
+        const nameClass = this.parseNameClass();
+        const content = this.parseBracedPattern();
+        return isPlainName(nameClass)
+          ? b.attrNamed(nameClass.name, content)
+          : b.attr(withoutNamespace(nameClass), content);
+      }
+      case 'list':
+        return b.list(...unwrapGroup(this.parseBracedPattern()));
+      case 'mixed':
+        return b.mixed(...unwrapGroup(this.parseBracedPattern()));
+      case 'parent':
+        return b.parentRef(this.expect('identifier').value);
+      case 'empty':
+        return b.empty();
+      case 'text':
+        return b.text();
+      case 'notAllowed':
+        return b.notAllowed();
+      case 'string':
+      case 'token':
+        return this.parseDatatype(token);
+      case 'external': {
+        const hrefToken = this.peek();
+        const href = this.parseLiteral();
+        const ns = this.parseInherit();
+        const externalRef = b.externalRef(href);
+        if (ns != undefined) externalRef.ns = ns;
+        const pattern = this.loadResource(href, hrefToken);
+        if (pattern) externalRef.pattern = pattern;
+        return externalRef;
+      }
+      case 'grammar': {
+        const [contents, elements] = this.parseBracedGrammarContents(false);
+        return annotate(b.grammar(...contents), { elements });
+      }
+    }
+    throw this.error(`Expected a pattern but found ${token.value}`, token);
+  }
+
+  private parseBracedPattern(): Pattern {
+    this.expect('operator', '{');
+    const pattern = this.parsePattern();
+    this.expect('operator', '}');
+    return pattern;
+  }
+
+  // A datatype name followed by a literal is a typed value. Otherwise it
+  // is data, with optional params and except.
+  private parseDatatype(token: Token): Pattern {
+    const [library, dataType] = this.datatypeOf(token);
+    if (this.at('literal')) {
+      const value = b.value(this.parseLiteral(), dataType);
+      if (library != '') value.datatypeLibrary = library;
+      return value;
+    }
+    const params = this.at('operator', '{') ? this.parseParams() : [];
+    let except: Except | undefined = undefined;
+    const start = this.index;
+    if (this.accept('operator', '-')) {
+      const pattern = this.parsePrimary();
+      except = this.finish(b.except(...unwrapChoice(pattern)), start);
+    }
+    const data = b.data(dataType, params, except);
+    if (library != '') data.datatypeLibrary = library;
+    return data;
+  }
+
+  // The library uri and local name of a datatype. The unprefixed string
+  // and token are from the built-in library.
+  private datatypeOf(token: Token): [string, string] {
+    if (token.type == 'keyword') return ['', token.value];
+    const [prefix, local] = token.value.split(':');
+    if (prefix in this.datatypes) return [this.datatypes[prefix], local];
+    const message = `Undeclared datatypes prefix: ${prefix}`;
+    this.report(this.error(message, token, 'undeclared-prefix'));
+    return ['', local];
+  }
+
+  private parseParams(): Param[] {
+    const params: Param[] = [];
+    this.expect('operator', '{');
+    while (!this.accept('operator', '}')) {
+      const annotations = this.parseAnnotations();
+      const start = this.index;
+      const name = this.parseIdentOrKeyword();
+      this.expect('operator', '=');
+      const param = b.param(name.value, this.parseLiteral());
+      params.push(annotate(this.finish(param, start), annotations));
+    }
+    return params;
+  }
+
+  // NAME CLASSES
+  private parseNameClass(): NameClass {
+    const start = this.index;
+    const first = this.parseBasicNameClass();
+    if (!this.at('operator', '|')) return first;
+    const children = [first];
+    while (this.accept('operator', '|'))
+      children.push(this.parseBasicNameClass());
+    return this.finish(b.nameChoice(...children), start);
+  }
+
+  private parseBasicNameClass(): NameClass {
+    const annotations = this.parseAnnotations();
+    const start = this.index;
+    const token = this.next();
+    if (token.type == 'operator' && token.value == '(') {
+      const nameClass = this.parseNameClass();
+      this.expect('operator', ')');
+      return annotate(nameClass, annotations);
+    }
+    let nameClass: NameClass;
+    if (token.type == 'operator' && token.value == '*') {
+      nameClass = b.anyName(...this.parseNameClassExcept());
+    } else if (token.type == 'nsName') {
+      const ns = this.namespaceOf(token.value, token);
+      nameClass = b.nsName(ns, ...this.parseNameClassExcept());
+    } else if (token.type == 'cname') {
+      this.namespaceOf(token.value.split(':')[0], token);
+      nameClass = b.name(token.value);
+    } else if (token.type == 'identifier' || token.type == 'keyword') {
+      nameClass = b.name(token.value);
+    } else {
+      throw this.error(
+        `Expected a name class but found ${describe(token)}`,
+        token,
+      );
+    }
+    return annotate(this.finish(nameClass, start), annotations);
+  }
+
+  private parseNameClassExcept(): NameClass[] {
+    if (!this.accept('operator', '-')) return [];
+    const nameClass = this.parseBasicNameClass();
+    return nameClass.type == 'nameChoice' && !nameClass.data?.annotations
+      ? nameClass.children
+      : [nameClass];
+  }
+
+  // ANNOTATIONS
+  // The documentation comments and bracketed annotations before a node
+  private parseAnnotations(): Annotations | undefined {
+    let annotations: Annotations | undefined = undefined;
+    while (this.at('documentation')) {
+      const documentation = this.next().value;
+      annotations = mergeAnnotations(annotations, { documentation });
+    }
+    if (!this.accept('operator', '[')) return annotations;
+    while (!this.accept('operator', ']')) {
+      const name = this.parseAnnotationName();
+      if (this.accept('operator', '=')) {
+        if (name.type != 'cname')
+          throw this.error('Annotation attributes must have a prefix', name);
+        const attributes = { [name.value]: this.parseLiteral() };
+        annotations = mergeAnnotations(annotations, { attributes });
+      } else {
+        const element = this.parseAnnotationElement(name);
+        annotations = mergeAnnotations(
+          annotations,
+          this.elementAnnotations(element),
+        );
+      }
+    }
+    return annotations;
+  }
+
+  // Annotation elements that follow a pattern after >>
+  private parseFollowAnnotations(pattern: Pattern): Pattern {
+    while (this.accept('operator', '>>')) {
+      const element = this.parseAnnotationElement(this.parseAnnotationName());
+      annotate(pattern, this.elementAnnotations(element));
+    }
+    return pattern;
+  }
+
+  private parseAnnotationName(): Token {
+    if (this.at('cname')) return this.next();
+    return this.parseIdentOrKeyword();
+  }
+
+  // An annotation element, name [ ... ], with attributes, elements and text
+  private parseAnnotationElement(name: Token): XastElement {
+    const children: ElementContent[] = [];
+    const element: XastElement = {
+      type: 'element',
+      name: name.value,
+      attributes: {},
+      children,
+    };
+    this.expect('operator', '[');
+    while (!this.accept('operator', ']')) {
+      if (this.at('literal')) {
+        children.push({ type: 'text', value: this.parseLiteral() });
+        continue;
+      }
+      const child = this.parseAnnotationName();
+      if (this.accept('operator', '=')) {
+        element.attributes[child.value] = this.parseLiteral();
+      } else {
+        children.push(this.parseAnnotationElement(child));
+      }
+    }
+    element.position = {
+      start: name.position.start,
+      end: this.tokens[this.index - 1].position.end,
+    };
+    return element;
+  }
+
+  // The text of a:documentation elements is kept as documentation
+  private elementAnnotations(element: XastElement): Annotations {
+    const [prefix, local] = element.name.split(':');
+    if (
+      this.namespaces[prefix] == ANNOTATIONS_NAMESPACE &&
+      local == 'documentation'
+    ) {
+      const text = element.children.map((ch) =>
+        ch.type == 'text' ? ch.value : '',
+      );
+      return { documentation: text.join('').trim() };
+    }
+    return { elements: [element] };
+  }
+
+  // RESOURCES
+  // Loads and parses the pattern at href through the context's resolver.
+  // Included resources are also in the compact syntax.
+  private loadResource(href: string, token: Token): Pattern | undefined {
+    if (this.ctx.resolver == undefined) return undefined;
+    let resource: Resource;
+    try {
+      resource = this.ctx.resolver.resolve(href, this.ctx.url);
+    } catch (e) {
+      const cause = e instanceof Error ? e : undefined;
+      const message = cause ? cause.message : String(e);
+      this.report(
+        new RngParseError('unresolved-resource', message, {
+          place: token.position,
+          url: this.ctx.url,
+          cause,
+        }),
+      );
+      return undefined;
+    }
+    const loading = [...this.ctx.loading, resource.url];
+    if (this.ctx.loading.includes(resource.url)) {
+      const message = `Resource loop: ${loading.join(' -> ')}`;
+      this.report(this.error(message, token, 'resource-loop'));
+      return undefined;
+    }
+    const root = parseCompact(resource.content, {
+      ...this.ctx,
+      url: resource.url,
+      loading,
+    });
+    return root.children[0];
+  }
+
+  private loadGrammar(href: string, token: Token): Grammar | undefined {
+    const pattern = this.loadResource(href, token);
+    if (pattern == undefined) return undefined;
+    if (pattern.type !== 'grammar') {
+      const message = `Included resource must be a grammar: ${href}`;
+      this.report(this.error(message, token, 'invalid-resource'));
+      return undefined;
+    }
+    return pattern;
+  }
+}
+
+function isCombinator(token: Token): boolean {
+  return token.type == 'operator' && [',', '&', '|'].includes(token.value);
+}
+
+// Element and define contents, like the children of the XML elements,
+// are an implicit group. So are the contents of the repeats, list
+// and mixed.
+function unwrapGroup(pattern: Pattern): Pattern[] {
+  return pattern.type == 'group' && !pattern.data?.annotations
+    ? pattern.children
+    : [pattern];
+}
+
+// The contents of an except are an implicit choice
+function unwrapChoice(pattern: Pattern): Pattern[] {
+  return pattern.type == 'choice' && !pattern.data?.annotations
+    ? pattern.children
+    : [pattern];
+}
+
+// A name class that can be given as the name of an element or attribute
+function isPlainName(nameClass: NameClass): nameClass is Name {
+  return (
+    nameClass.type == 'name' &&
+    nameClass.ns == undefined &&
+    !nameClass.data?.annotations
+  );
+}
+
+// Unprefixed attribute names are in no namespace, rather than the
+// default namespace that name elements inherit
+function withoutNamespace(nameClass: NameClass): NameClass {
+  switch (nameClass.type) {
+    case 'name':
+      if (!nameClass.name.includes(':') && nameClass.ns == undefined)
+        nameClass.ns = '';
+      break;
+    case 'nameChoice':
+      nameClass.children.forEach(withoutNamespace);
+      break;
+    default:
+      nameClass.except?.children.forEach(withoutNamespace);
+  }
+  return nameClass;
+}
+
+function mergeAnnotations(
+  first: Annotations | undefined,
+  second: Annotations,
+): Annotations {
+  if (first == undefined) return second;
+  const merged: Annotations = { ...first };
+  if (second.documentation != undefined)
+    merged.documentation =
+      first.documentation == undefined
+        ? second.documentation
+        : `${first.documentation}\n\n${second.documentation}`;
+  if (second.attributes)
+    merged.attributes = { ...first.attributes, ...second.attributes };
+  if (second.elements)
+    merged.elements = [...(first.elements ?? []), ...second.elements];
+  return merged;
+}
+
+function annotate<T extends RngNode>(
+  node: T,
+  annotations: Annotations | undefined,
+): T {
+  if (annotations == undefined || isEmpty(annotations)) return node;
+  const merged = mergeAnnotations(node.data?.annotations, annotations);
+  node.data = { ...node.data, annotations: merged };
+  return node;
+}
+
+function isEmpty(annotations: Annotations): boolean {
+  return (
+    annotations.documentation == undefined &&
+    annotations.attributes == undefined &&
+    (annotations.elements == undefined || annotations.elements.length == 0)
+  );
+}
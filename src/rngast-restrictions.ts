@@ -0,0 +1,354 @@
+// Checks the restrictions that a simplified grammar must satisfy
+// https://relaxng.org/spec-20011203.html#restriction
+
+import { visit, SKIP } from 'unist-util-visit';
+import * as R from './rngast';
+import * as S from './simple-rngast';
+import { RngSchemaError, RngSchemaErrorCode } from './errors';
+
+// The patterns that cannot occur as descendants of each kind of node
+// (7.1.1, 7.1.3, 7.1.4, 7.1.5). Paths do not follow refs, so an element
+// starts afresh.
+const PROHIBITED: Record<string, string[]> = {
+  attribute: ['attribute', 'ref'],
+  list: ['list', 'ref', 'attribute', 'text', 'interleave'],
+  except: [
+    'attribute',
+    'ref',
+    'text',
+    'list',
+    'group',
+    'interleave',
+    'oneOrMore',
+    'empty',
+  ],
+  start: [
+    'attribute',
+    'data',
+    'value',
+    'text',
+    'list',
+    'group',
+    'interleave',
+    'oneOrMore',
+    'empty',
+  ],
+};
+
+// A namespace or local name that no real name has, standing for the
+// names that a name class matches without listing them
+const ILLEGAL = '\0';
+
+// Content types, in increasing order (7.2)
+const CONTENT_TYPES = ['empty', 'complex', 'simple'] as const;
+type ContentType = (typeof CONTENT_TYPES)[number];
+
+type Node = S.Pattern | R.NotAllowed | S.Except;
+
+// Returns every violation of the restrictions of section 7 in the
+// simplified grammar. Each error points at the offending node and has
+// the path to it, from the start or define that it is in.
+export function checkRestrictions(tree: S.Root): RngSchemaError[] {
+  const checker = new RestrictionChecker(tree.children[0]);
+  return checker.check();
+}
+
+class RestrictionChecker {
+  start: S.Start;
+  defines: S.Define[];
+  elements = new Map<string, S.Element>();
+  errors: RngSchemaError[] = [];
+  paths = new Map<Node, string[]>();
+
+  constructor(grammar: S.Grammar) {
+    [this.start, ...this.defines] = grammar.children as [
+      S.Start,
+      ...S.Define[],
+    ];
+    for (const define of this.defines) {
+      this.elements.set(define.name, define.children[0]);
+    }
+  }
+
+  check(): RngSchemaError[] {
+    this.walk(this.start.children[0], ['start'], ['start']);
+    for (const define of this.defines) {
+      const [nameClass, content] = define.children[0].children;
+      const path = [
+        `define ${define.name}`,
+        `element ${describeNameClass(nameClass)}`,
+      ];
+      this.walk(content, [], path);
+      this.contentType(content);
+    }
+    return this.errors;
+  }
+
+  private report(code: RngSchemaErrorCode, message: string, node: Node) {
+    this.errors.push(
+      new RngSchemaError(code, message, node, this.paths.get(node)),
+    );
+  }
+
+  // Checks the prohibited paths (7.1), attributes (7.3) and interleaves
+  // (7.4), given the types of the ancestors of the node
+  private walk(node: Node, ancestors: string[], path: string[]) {
+    path = [...path, describeNode(node)];
+    this.paths.set(node, path);
+    // The descendants of a prohibited node are not checked, which would
+    // only repeat the problem
+    const prohibited = prohibitedPath(node.type, ancestors);
+    if (prohibited) {
+      this.report('prohibited-path', `Prohibited path: ${prohibited}`, node);
+      return;
+    }
+    if (
+      node.type == 'attribute' &&
+      isInfinite(node.children[0]) &&
+      !ancestors.includes('oneOrMore')
+    ) {
+      const message = `Attribute ${describeNameClass(node.children[0])} must be repeated with oneOrMore`;
+      this.report('duplicate-attribute', message, node);
+    }
+    if (node.type == 'group' || node.type == 'interleave')
+      this.checkAttributes(node);
+    if (node.type == 'interleave') this.checkInterleave(node);
+    ancestors = [...ancestors, node.type];
+    for (const child of childPatterns(node)) this.walk(child, ancestors, path);
+  }
+
+  // No name can belong to attributes on both sides of a group or
+  // interleave (7.3)
+  private checkAttributes(node: S.Group | S.Interleave) {
+    const [first, second] = operands(node).map(attributesIn);
+    for (const attribute of second) {
+      const nameClass = attribute.children[0];
+      const other = first.find((a) => overlaps(a.children[0], nameClass));
+      if (other == undefined) continue;
+      const names = [other.children[0], nameClass].map(describeNameClass);
+      const message = `Attributes ${names.join(' and ')} can occur more than once`;
+      this.report('duplicate-attribute', message, attribute);
+    }
+  }
+
+  // No name can belong to elements on both sides of an interleave, and
+  // text cannot occur on both sides (7.4)
+  private checkInterleave(node: S.Interleave) {
+    const [first, second] = operands(node).map((ch) =>
+      refsIn(ch).flatMap((ref) => this.elements.get(ref.name) ?? []),
+    );
+    for (const element of second) {
+      const [nameClass] = element.children;
+      const other = first.find((el) => overlaps(el.children[0], nameClass));
+      if (other == undefined) continue;
+      const names = [other.children[0], nameClass].map(describeNameClass);
+      const message = `Elements ${names.join(' and ')} occur on both sides of interleave`;
+      this.report('interleave-overlap', message, node);
+    }
+    if (operands(node).every(containsText))
+      this.report(
+        'interleave-overlap',
+        'Text occurs on both sides of interleave',
+        node,
+      );
+  }
+
+  // The content type of the pattern (7.2), or undefined if it has none.
+  // Patterns that combine data, values or lists with other content have
+  // none, and are reported.
+  private contentType(node: Node): ContentType | undefined {
+    switch (node.type) {
+      case 'value':
+      case 'list':
+        return 'simple';
+      case 'data': {
+        if (node.children.length == 0) return 'simple';
+        return this.contentType(node.children[0]) && 'simple';
+      }
+      case 'text':
+      case 'ref':
+        return 'complex';
+      case 'empty':
+      case 'notAllowed':
+        return 'empty';
+      case 'attribute':
+        return this.contentType(node.children[1]) && 'empty';
+      case 'except':
+        return this.contentType(node.children[0]);
+      case 'choice': {
+        const [first, second] = operands(node).map((ch) =>
+          this.contentType(ch),
+        );
+        return first && second && max(first, second);
+      }
+      case 'group':
+      case 'interleave': {
+        const [first, second] = operands(node).map((ch) =>
+          this.contentType(ch),
+        );
+        if (first == undefined || second == undefined) return undefined;
+        if (groupable(first, second)) return max(first, second);
+        this.report('string-sequence', stringSequenceMessage(node), node);
+        return undefined;
+      }
+      case 'oneOrMore': {
+        const type = this.contentType(node.children[0]);
+        if (type == undefined) return undefined;
+        if (groupable(type, type)) return type;
+        this.report('string-sequence', stringSequenceMessage(node), node);
+        return undefined;
+      }
+    }
+  }
+}
+
+function operands(node: S.Choice | S.Group | S.Interleave): [Node, Node] {
+  return [node.children[0], node.children[1]];
+}
+
+function prohibitedPath(type: string, ancestors: string[]): string | undefined {
+  for (const [ancestor, descendants] of Object.entries(PROHIBITED)) {
+    if (ancestors.includes(ancestor) && descendants.includes(type))
+      return `${ancestor}//${type}`;
+  }
+  // 7.1.2
+  if (type != 'attribute') return undefined;
+  const repeated = ancestors.indexOf('oneOrMore');
+  if (repeated < 0) return undefined;
+  const grouping = ancestors
+    .slice(repeated + 1)
+    .find((a) => a == 'group' || a == 'interleave');
+  if (grouping) return `oneOrMore//${grouping}//attribute`;
+}
+
+// The child patterns, including the content of attributes and the except
+// of data. Refs are not followed.
+function childPatterns(node: Node): Node[] {
+  switch (node.type) {
+    case 'attribute':
+      return [node.children[1]];
+    case 'data':
+    case 'list':
+    case 'oneOrMore':
+    case 'choice':
+    case 'group':
+    case 'interleave':
+    case 'except':
+      return node.children;
+    default:
+      return [];
+  }
+}
+
+function attributesIn(node: Node): S.Attribute[] {
+  const attributes: S.Attribute[] = [];
+  visit(node, (n) => {
+    if (n.type == 'ref') return SKIP;
+    if (n.type != 'attribute') return;
+    attributes.push(n as S.Attribute);
+    return SKIP;
+  });
+  return attributes;
+}
+
+function refsIn(node: Node): R.Ref[] {
+  const refs: R.Ref[] = [];
+  visit(node, (n) => {
+    if (n.type == 'attribute') return SKIP;
+    if (n.type == 'ref') refs.push(n as R.Ref);
+  });
+  return refs;
+}
+
+// Text in the content of attributes does not count
+function containsText(node: Node): boolean {
+  let found = false;
+  visit(node, (n) => {
+    if (n.type == 'attribute' || n.type == 'ref') return SKIP;
+    if (n.type == 'text') found = true;
+  });
+  return found;
+}
+
+function groupable(first: ContentType, second: ContentType): boolean {
+  return (
+    first == 'empty' ||
+    second == 'empty' ||
+    (first == 'complex' && second == 'complex')
+  );
+}
+
+function max(first: ContentType, second: ContentType): ContentType {
+  return CONTENT_TYPES.indexOf(first) > CONTENT_TYPES.indexOf(second)
+    ? first
+    : second;
+}
+
+function stringSequenceMessage(node: Node) {
+  return `${node.type} cannot combine data, values or lists with other content`;
+}
+
+// Whether some name belongs to both name classes. If it does, one of the
+// names that stand for either name class belongs to both.
+function overlaps(first: R.NameClass, second: R.NameClass): boolean {
+  return [...representatives(first), ...representatives(second)].some(
+    ([ns, local]) =>
+      containsName(first, ns, local) && containsName(second, ns, local),
+  );
+}
+
+function representatives(nc: R.NameClass): [string, string][] {
+  const except = (nc.type == 'anyName' || nc.type == 'nsName') && nc.except;
+  const excepted = except ? except.children.flatMap(representatives) : [];
+  switch (nc.type) {
+    case 'name':
+      return [[nc.ns ?? '', nc.name]];
+    case 'nsName':
+      return [[nc.ns ?? '', ILLEGAL], ...excepted];
+    case 'anyName':
+      return [[ILLEGAL, ILLEGAL], ...excepted];
+    case 'nameChoice':
+      return nc.children.flatMap(representatives);
+  }
+}
+
+function containsName(nc: R.NameClass, ns: string, local: string): boolean {
+  const excepted = (nc: R.AnyName | R.NsName) =>
+    nc.except?.children.some((ch) => containsName(ch, ns, local)) ?? false;
+  switch (nc.type) {
+    case 'name':
+      return (nc.ns ?? '') == ns && nc.name == local;
+    case 'nsName':
+      return (nc.ns ?? '') == ns && !excepted(nc);
+    case 'anyName':
+      return !excepted(nc);
+    case 'nameChoice':
+      return nc.children.some((ch) => containsName(ch, ns, local));
+  }
+}
+
+// Whether the name class has infinitely many names
+function isInfinite(nc: R.NameClass): boolean {
+  if (nc.type == 'nameChoice') return nc.children.some(isInfinite);
+  return nc.type != 'name';
+}
+
+function describeNameClass(nc: R.NameClass): string {
+  switch (nc.type) {
+    case 'name':
+      return nc.ns ? `{${nc.ns}}${nc.name}` : nc.name;
+    case 'anyName':
+      return '*';
+    case 'nsName':
+      return `{${nc.ns ?? ''}}*`;
+    case 'nameChoice':
+      return nc.children.map(describeNameClass).join('|');
+  }
+}
+
+function describeNode(node: Node): string {
+  if (node.type == 'attribute')
+    return `attribute ${describeNameClass(node.children[0])}`;
+  if (node.type == 'ref') return `ref ${node.name}`;
+  return node.type;
+}
@@ -7,49 +7,484 @@ import * as R from './rngast';
 import * as S from './simple-rngast';
 import * as r from './relaxng-builder';
 import { selectAll } from 'unist-util-select';
+import { RngSchemaError } from './errors';
+import { checkRestrictions } from './rngast-restrictions';
+
+// A step of the simplification, which changes the tree in place. Custom
+// passes, such as one that drops deprecated elements, are steps too.
+export interface SimplificationStep {
+  name: string;
+  // The sections of the spec that the step implements
+  sections?: string;
+  run(tree: R.RngRoot): void;
+}
+
+// A custom step, run right after the step named by after, or before all
+// the steps without one
+export interface SimplificationPass extends SimplificationStep {
+  after?: string;
+}
 
-// Note: Changes the root tree and simply returns it as a S.Root
 // Numbering refers to spec: https://relaxng.org/spec-20011203.html#simplification
-export function simplifyRngAst(tree: R.RngRoot): S.Root {
-  // 4.8
-  moveNameAttributeToChild(tree);
-  // 4.12
-  controlChildren(tree);
-  // 4.13, 4.14, 4.15
-  replaceMixedOptionalAndZeroOrMore(tree);
-  // 4.16 skipped
-  // 4.17 eliminate combine attribute
-  eliminateCombineAttribute(tree);
-  // 4.18 onlyOneGrammar
-  ensureOnlyOneGrammarElement(tree);
-  // 4.19 define and element
-  canonicalDefineAndElement(tree);
-  // 4.20 notAllowed only as child of start or element
-  limitLocationsOfNotAllowed(tree);
-  // 4.21
-  avoidEmptyInGroupSpots(tree);
+// The parsers keep annotations apart from the grammar, in node data (4.1).
+// Resources are prepared (4.2 - 4.5) as they are expanded, whether or not
+// those steps run on the tree itself.
+export const SIMPLIFICATION_STEPS: readonly SimplificationStep[] = [
+  { name: 'normalizeWhiteSpace', sections: '4.2', run: normalizeWhiteSpace },
+  {
+    name: 'propagateDatatypeLibraries',
+    sections: '4.3',
+    run: (tree) => propagateDatatypeLibraries(tree),
+  },
+  { name: 'addValueTypes', sections: '4.4', run: addValueTypes },
+  { name: 'resolveHrefs', sections: '4.5', run: resolveHrefs },
+  {
+    name: 'expandIncludesAndExternalRefs',
+    sections: '4.6, 4.7',
+    run: expandIncludesAndExternalRefs,
+  },
+  {
+    name: 'resolveNamespaces',
+    sections: '4.8, 4.9, 4.10',
+    run: resolveNamespaces,
+  },
+  {
+    name: 'moveNameAttributeToChild',
+    sections: '4.8',
+    run: moveNameAttributeToChild,
+  },
+  {
+    name: 'removeInheritedAttributes',
+    sections: '4.8, 4.9, 4.10',
+    run: removeInheritedAttributes,
+  },
+  { name: 'flattenDivElements', sections: '4.11', run: flattenDivElements },
+  { name: 'controlChildren', sections: '4.12', run: controlChildren },
+  {
+    name: 'replaceMixedOptionalAndZeroOrMore',
+    sections: '4.13, 4.14, 4.15',
+    run: replaceMixedOptionalAndZeroOrMore,
+  },
+  {
+    name: 'checkNameClassConstraints',
+    sections: '4.16',
+    run: checkNameClassConstraints,
+  },
+  {
+    name: 'eliminateCombineAttribute',
+    sections: '4.17',
+    run: eliminateCombineAttribute,
+  },
+  {
+    name: 'ensureOnlyOneGrammarElement',
+    sections: '4.18',
+    run: ensureOnlyOneGrammarElement,
+  },
+  {
+    name: 'canonicalDefineAndElement',
+    sections: '4.19',
+    run: canonicalDefineAndElement,
+  },
+  {
+    name: 'limitLocationsOfNotAllowed',
+    sections: '4.20',
+    run: limitLocationsOfNotAllowed,
+  },
+  {
+    name: 'avoidEmptyInGroupSpots',
+    sections: '4.21',
+    run: avoidEmptyInGroupSpots,
+  },
+];
+
+export interface PipelineOptions {
+  // Stops after the step of this name, leaving the tree partly simplified
+  until?: string;
+  // The names of the steps to leave out
+  skip?: string[];
+  passes?: SimplificationPass[];
+  // Called after each step that runs, with a copy of the tree as it is then
+  onStep?: (step: SimplificationStep, snapshot: R.RngRoot) => void;
+}
+
+// Runs the simplification steps, with any custom passes, on the tree.
+// Changes the tree and returns it, without checking the result.
+export function runSimplificationSteps(
+  tree: R.RngRoot,
+  options: PipelineOptions = {},
+): R.RngRoot {
+  const steps = insertPasses(options.passes ?? []);
+  const names = steps.map((step) => step.name);
+  const named = [...(options.skip ?? [])];
+  if (options.until != undefined) named.push(options.until);
+  for (const name of named) {
+    if (!names.includes(name))
+      throw new Error(`Unknown simplification step: ${name}`);
+  }
+  for (const step of steps) {
+    if (!options.skip?.includes(step.name)) {
+      step.run(tree);
+      if (options.onStep) options.onStep(step, copyTree(tree));
+    }
+    if (step.name == options.until) break;
+  }
+  return tree;
+}
+
+// The steps with the passes inserted. Passes after the same step keep
+// their order.
+function insertPasses(passes: SimplificationPass[]): SimplificationStep[] {
+  const steps: SimplificationStep[] = [...SIMPLIFICATION_STEPS];
+  const inserted = new Set<SimplificationStep>();
+  for (const pass of passes) {
+    let index = 0;
+    if (pass.after != undefined) {
+      index = steps.findIndex((step) => step.name == pass.after) + 1;
+      if (index == 0)
+        throw new Error(`Unknown simplification step: ${pass.after}`);
+    }
+    while (
+      inserted.has(steps[index]) &&
+      (steps[index] as SimplificationPass).after == pass.after
+    )
+      index++;
+    steps.splice(index, 0, pass);
+    inserted.add(pass);
+  }
+  return steps;
+}
+
+export interface SimplifyOptions extends Omit<PipelineOptions, 'until'> {
+  // Whether to check the restrictions of section 7 on the simplified
+  // grammar, throwing the first violation. Checked by default.
+  restrictions?: boolean;
+}
+
+// Note: Changes the root tree and simply returns it as a S.Root. Use
+// simplifyRngAstPure to keep the root tree as it is.
+export function simplifyRngAst(
+  tree: R.RngRoot,
+  options: SimplifyOptions = {},
+): S.Root {
+  runSimplificationSteps(tree, options);
   // Validate
-  if (S.isRoot(tree)) return tree;
-  throw new Error('Not valid as simplified RelaxNG');
+  if (!S.isRoot(tree)) {
+    const details = S.checkSimplified(tree).map(S.describeViolation);
+    throw new Error(
+      ['Not valid as simplified RelaxNG:', ...details].join('\n'),
+    );
+  }
+  // 7
+  if (options.restrictions ?? true) {
+    const [error] = checkRestrictions(tree);
+    if (error) throw error;
+  }
+  return tree;
+}
+
+// Where the element of a define in the simplified grammar comes from:
+// the element in the original grammar, and the define that it is in, if
+// any. Defines of the same name in different grammars are renamed apart
+// when simplifying, so Section__2 may come from a define named Section.
+export interface ElementOrigin {
+  element: R.ElementNamed | R.Element;
+  define?: R.Define;
+}
+
+export interface SimplifyResult {
+  tree: S.Root;
+  // The origin of each define of the simplified grammar, by its name
+  trace: Map<string, ElementOrigin>;
+}
+
+// Simplifies a copy of the tree, leaving the tree itself unchanged, and
+// traces the defines of the simplified grammar back to the tree
+export function simplifyRngAstPure(
+  tree: R.RngRoot,
+  options: SimplifyOptions = {},
+): SimplifyResult {
+  const origins = new Map<U.Node, ElementOrigin>();
+  const simplified = simplifyRngAst(copyTree(tree, origins), options);
+  const trace = new Map<string, ElementOrigin>();
+  const [, ...defines] = simplified.children[0].children as [
+    S.Start,
+    ...S.Define[],
+  ];
+  for (const define of defines) {
+    const origin = origins.get(define.children[0]);
+    if (origin) trace.set(define.name, origin);
+  }
+  return { tree: simplified, trace };
+}
+
+// Deep copies the tree, including loaded resources and node data. The
+// origin of each copied element is recorded, if asked, with the closest
+// define that it is in.
+function copyTree<T extends U.Node>(
+  tree: T,
+  origins?: Map<U.Node, ElementOrigin>,
+): T {
+  const copy = structuredClone(tree);
+  if (origins) recordOrigins(tree, copy, origins);
+  return copy;
+}
+
+// Walks a value and its copy together. Every property is followed, as
+// loaded resources and the excepts of name classes are not children.
+function recordOrigins(
+  value: unknown,
+  copy: unknown,
+  origins: Map<U.Node, ElementOrigin>,
+  define?: R.Define,
+) {
+  if (typeof value != 'object' || value == null) return;
+  const copied = copy as Record<string, unknown>;
+  const node = value as R.Content;
+  if (node.type == 'define') define = node;
+  if (node.type == 'element' || node.type == 'elementNamed')
+    origins.set(copy as U.Node, { element: node, define });
+  for (const [key, v] of Object.entries(value))
+    recordOrigins(v, copied[key], origins, define);
 }
 
-// Make sure element/attribute has nameClass child instead of name property
-function moveNameAttributeToChild(three: R.RngRoot): void {
-  visit(three, ['elementNamed', 'attributeNamed'], (node, index, parent) => {
+// The steps that each resource goes through on its own, before the
+// resources that it references are expanded into it (4.2 - 4.5)
+function prepareResource(tree: R.RngRoot | R.Content) {
+  normalizeWhiteSpace(tree);
+  propagateDatatypeLibraries(tree);
+  addValueTypes(tree);
+  resolveHrefs(tree);
+}
+
+// Strips leading and trailing whitespace from names and datatypes (4.2).
+// The parsers already drop the whitespace between elements.
+export function normalizeWhiteSpace(tree: U.Node) {
+  visit(tree, (node) => {
+    const n = node as R.Content;
+    switch (n.type) {
+      case 'elementNamed':
+      case 'attributeNamed':
+      case 'ref':
+      case 'parentRef':
+      case 'define':
+      case 'name':
+        n.name = n.name.trim();
+        break;
+      case 'data':
+        n.dataType = n.dataType.trim();
+        n.params.forEach((param) => (param.name = param.name.trim()));
+        break;
+      case 'value':
+        n.dataType = n.dataType?.trim();
+        break;
+      case 'anyName':
+      case 'nsName':
+        if (n.except) normalizeWhiteSpace(n.except);
+        break;
+    }
+  });
+}
+
+// A value without a type is a token of the built-in library, whatever the
+// library that it inherits (4.4)
+export function addValueTypes(tree: R.RngRoot | R.Content) {
+  visit(tree, 'value', (node: R.Value) => {
+    if (node.dataType != undefined) return;
+    node.dataType = 'token';
+    node.datatypeLibrary = '';
+  });
+}
+
+// Escapes the characters that are not allowed in URIs in each href. The
+// href of a loaded resource becomes its url, the href resolved against the
+// url of the resource that references it (4.5).
+export function resolveHrefs(tree: R.RngRoot | R.Content) {
+  visit(tree, ['include', 'externalRef'], (node) => {
+    if (node.type != 'include' && node.type != 'externalRef') return;
+    const resource = node.type == 'include' ? node.grammar : node.pattern;
+    node.href = resource?.data?.url ?? escapeHref(node.href);
+  });
+}
+
+// Escapes as in https://www.w3.org/TR/xlink/#link-locators
+function escapeHref(href: string): string {
+  return href.replace(/[^\x21-\x7e]|[<>"{}|\\^`]/gu, encodeURIComponent);
+}
+
+// Give every data and value a datatypeLibrary, inherited from the closest
+// ancestor that has one or else the empty string. Each referenced resource
+// inherits separately, so this is also applied to them as they are expanded.
+export function propagateDatatypeLibraries(
+  node: R.RngRoot | R.Content,
+  inherited: string = '',
+): void {
+  const el = node as R.Content;
+  if (el.type == 'data' || el.type == 'value') el.datatypeLibrary ??= inherited;
+  const childLibrary = el.datatypeLibrary ?? inherited;
+  if ('children' in el) {
+    for (const child of el.children) {
+      propagateDatatypeLibraries(child, childLibrary);
+    }
+  }
+}
+
+// Replace each externalRef with the pattern it references. If the externalRef
+// has an ns attribute and the pattern does not, the pattern gets it.
+// Replace each include with a div containing the included grammar's content
+// followed by the include's own content. Any start or defines in the included
+// grammar that the include's content overrides are removed first.
+export function expandIncludesAndExternalRefs(
+  tree: R.RngRoot | R.Grammar,
+): void {
+  visit(tree, ['include', 'externalRef'], (node, index, parent) => {
     if (index == undefined || parent == undefined) return;
-    if (node.type == 'elementNamed') {
-      parent.children.splice(
-        index,
-        1,
-        r.elem(r.name(node.name), ...node.children),
-      );
-    } else if (node.type == 'attributeNamed') {
-      parent.children.splice(
-        index,
-        1,
-        r.attr(r.name(node.name), ...node.children),
-      );
+    if (node.type == 'externalRef') {
+      const pattern = node.pattern;
+      if (pattern == undefined)
+        throw new Error(`Cannot simplify unresolved externalRef: ${node.href}`);
+      if (node.ns != undefined && pattern.ns == undefined) pattern.ns = node.ns;
+      prepareResource(pattern);
+      parent.children.splice(index, 1, pattern);
+      // Revisit the pattern so its own includes and externalRefs are expanded
+      return index;
+    }
+    if (node.type != 'include') return;
+    const grammar = node.grammar;
+    if (grammar == undefined)
+      throw new Error(`Cannot simplify unresolved include: ${node.href}`);
+    prepareResource(grammar);
+    // Nested includes must be expanded before overrides are removed
+    expandIncludesAndExternalRefs(grammar);
+    for (const component of collectComponents(node.children)) {
+      const overridden =
+        component.type == 'start'
+          ? removeComponents(grammar, (ch) => ch.type == 'start')
+          : removeComponents(
+              grammar,
+              (ch) => ch.type == 'define' && ch.name == component.name,
+            );
+      const what = component.type == 'start' ? 'start' : component.name;
+      if (!overridden)
+        throw new Error(`Included grammar ${node.href} has no ${what}`);
+    }
+    // The included grammar keeps its own namespace context, and takes the
+    // ns of the include when it has none (4.7)
+    const included = derive(r.div(...grammar.children), grammar);
+    const ns = grammar.ns ?? node.ns;
+    if (ns != undefined) included.ns = ns;
+    if (grammar.namespaces) included.namespaces = grammar.namespaces;
+    const div = derive(r.div(included, ...node.children), node);
+    if (node.ns != undefined) div.ns = node.ns;
+    if (node.namespaces) div.namespaces = node.namespaces;
+    parent.children.splice(index, 1, div);
+    // Revisit the div, for any externalRefs in the include's content
+    return index;
+  });
+}
+
+// The namespace bound to the xml prefix, which needs no declaration
+export const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+// Makes the namespace of each element and attribute name, name class and
+// value explicit in its ns (4.8, 4.9) and strips the prefixes from names,
+// using the prefix declarations in scope (4.10). Nodes inherit the ns of
+// their closest ancestor that has one, except that attribute names have
+// no namespace unless given one.
+// Can be used on any subtree. Changes the tree and returns it.
+export function resolveNamespaces<T extends R.RngRoot | R.Content>(tree: T): T {
+  resolveNodeNamespaces(tree, '', { xml: XML_NAMESPACE });
+  return tree;
+}
+
+function resolveNodeNamespaces(
+  node: R.RngRoot | R.Content | R.ExceptNameClass,
+  inherited: string,
+  prefixes: Record<string, string>,
+) {
+  const el = node as R.Content | R.ExceptNameClass;
+  if (el.namespaces) prefixes = { ...prefixes, ...el.namespaces };
+  // Descendants inherit the ns attribute as written, before it is resolved
+  const childNs = el.ns ?? inherited;
+  switch (el.type) {
+    case 'elementNamed':
+    case 'attributeNamed':
+    case 'name': {
+      const [prefix, local] = splitQName(el.name);
+      el.name = local;
+      if (prefix != undefined) {
+        if (!(prefix in prefixes))
+          throw new Error(`Undeclared namespace prefix: ${prefix}`);
+        el.ns = prefixes[prefix];
+      } else if (el.ns == undefined) {
+        el.ns = el.type == 'attributeNamed' ? '' : inherited;
+      }
+      break;
+    }
+    case 'nsName':
+    case 'value':
+      if (el.ns == undefined) el.ns = inherited;
+      break;
+  }
+  if (el.type == 'anyName' || el.type == 'nsName') {
+    if (el.except) resolveNodeNamespaces(el.except, childNs, prefixes);
+  }
+  if ('children' in el) {
+    for (const child of el.children) {
+      resolveNodeNamespaces(child, childNs, prefixes);
     }
+  }
+}
+
+// Splits a QName into its prefix, if any, and local name
+function splitQName(qname: string): [string | undefined, string] {
+  const colon = qname.indexOf(':');
+  if (colon < 0) return [undefined, qname];
+  return [qname.slice(0, colon), qname.slice(colon + 1)];
+}
+
+// Only name, nsName and value keep their ns once it has been resolved,
+// and only data and value keep their datatypeLibrary
+export function removeInheritedAttributes(tree: R.RngRoot | R.ExceptNameClass) {
+  visit(tree, (node) => {
+    const el = node as R.Content | R.ExceptNameClass;
+    delete el.namespaces;
+    if (el.type != 'name' && el.type != 'nsName' && el.type != 'value')
+      delete el.ns;
+    if (el.type != 'data' && el.type != 'value') delete el.datatypeLibrary;
+    // The except of a name class is not one of its children
+    if ((el.type == 'anyName' || el.type == 'nsName') && el.except)
+      removeInheritedAttributes(el.except);
+  });
+}
+
+// Make sure element/attribute has nameClass child instead of name property.
+// The nodes are changed in place, so that simplified elements are the
+// same objects as the elements they come from.
+export function moveNameAttributeToChild(tree: R.RngRoot): void {
+  visit(tree, ['elementNamed', 'attributeNamed'], (node) => {
+    if (node.type != 'elementNamed' && node.type != 'attributeNamed') return;
+    const nameClass = nameOf(node);
+    const named = node as { type: string; name?: string; children: unknown[] };
+    named.type = node.type == 'elementNamed' ? 'element' : 'attribute';
+    named.children = [nameClass, ...named.children];
+    delete named.name;
+  });
+}
+
+// The name class for an element or attribute name. The ns attribute
+// moves along with the name.
+function nameOf(node: R.ElementNamed | R.AttributeNamed): R.Name {
+  return derive(r.name(node.name, node.ns), node);
+}
+
+// Replace each div element by its children
+export function flattenDivElements(tree: R.RngRoot): void {
+  visit(tree, 'div', (node, index, parent) => {
+    if (index == undefined || parent == undefined) return;
+    if (node.type != 'div') return;
+    parent.children.splice(index, 1, ...node.children);
+    // Revisit the same index, which now holds the div's first child
+    return index;
   });
 }
 
@@ -58,9 +493,10 @@ function moveNameAttributeToChild(three: R.RngRoot): void {
 //      using group
 // - element have two children (name + pattern)
 // - if attribute has no non-name child add </text>
-// - (n/a) multiple children of except are wrapped in choice
+// - multiple children of except are wrapped in choice
 // - choice/group/interleave exactly two children
-function controlChildren(tree: R.RngRoot): void {
+// - name classes likewise, see controlNameClass
+export function controlChildren(tree: R.RngRoot): void {
   const builders = {
     group: r.group,
     interleave: r.interleave,
@@ -68,24 +504,34 @@ function controlChildren(tree: R.RngRoot): void {
   } as const;
   visit(tree, (node, index, parent) => {
     switch (node.type) {
+      case 'except':
+        if (node.children.length > 1) {
+          node.children = [
+            derive(r.choice(...node.children), ...node.children),
+          ];
+        }
+        return;
       case 'define':
       case 'oneOrMore':
       case 'zeroOrMore':
       case 'optional':
+      case 'list':
       case 'mixed':
         if (node.children.length > 1) {
-          node.children = [r.group(...node.children)];
+          node.children = [derive(r.group(...node.children), ...node.children)];
         }
         return;
       case 'element':
+        node.children[0] = controlNameClass(node.children[0]);
         if (node.children.length > 2) {
           const [nameClass, ...rest] = node.children;
-          node.children = [nameClass, r.group(...rest)];
+          node.children = [nameClass, derive(r.group(...rest), ...rest)];
         }
         return;
       case 'attribute':
+        node.children[0] = controlNameClass(node.children[0]);
         if (node.children.length == 1) {
-          node.children = [...node.children, r.text()];
+          node.children = [...node.children, derive(r.text(), node)];
         }
         return;
       case 'choice':
@@ -94,38 +540,140 @@ function controlChildren(tree: R.RngRoot): void {
         if (index == undefined || parent == undefined) return;
         if (node.children.length == 1) {
           parent.children.splice(index, 1, node.children[0]);
+          // Revisit the same index, which now holds the single child
+          return index;
         } else if (node.children.length > 2) {
+          // Nest all but the last child. The nested node is visited
+          // next and handled the same way.
           const builder = builders[node.type];
-          parent.children.splice(
-            index,
-            1,
-            node.children.reduce((p1, p2) => builder(p1, p2)),
-          );
+          const last = node.children[node.children.length - 1];
+          const nested = node.children.slice(0, -1);
+          node.children = [derive(builder(...nested), ...nested), last];
         }
         return;
     }
   });
 }
 
+// Makes sure that nameChoice has exactly two children, nesting all but
+// the last one, and that the except of anyName and nsName has exactly one,
+// wrapping several in a nameChoice. Returns the name class to use instead.
+function controlNameClass(node: R.NameClass): R.NameClass {
+  switch (node.type) {
+    case 'nameChoice': {
+      const children = node.children.map(controlNameClass);
+      if (children.length == 1) return children[0];
+      if (children.length > 2) {
+        const last = children.pop()!;
+        const nested = derive(r.nameChoice(...children), ...children);
+        node.children = [controlNameClass(nested), last];
+      } else {
+        node.children = children;
+      }
+      return node;
+    }
+    case 'anyName':
+    case 'nsName': {
+      const children = node.except?.children.map(controlNameClass) ?? [];
+      if (node.except && children.length == 0) delete node.except;
+      else if (node.except && children.length > 1)
+        node.except.children = [
+          controlNameClass(derive(r.nameChoice(...children), ...children)),
+        ];
+      else if (node.except) node.except.children = children;
+      return node;
+    }
+    default:
+      return node;
+  }
+}
+
 // Makes sure that any mixed, optional, and zeroormore nodes get transformed away
 // Node that this runs after the previous function. As such, these nodes have a single child
-function replaceMixedOptionalAndZeroOrMore(tree: R.RngRoot) {
+export function replaceMixedOptionalAndZeroOrMore(tree: R.RngRoot) {
   visit(tree, ['mixed', 'optional', 'zeroOrMore'], (node, index, parent) => {
     if (index == undefined || parent == undefined) return;
     if (node.type == 'mixed') {
-      const newNode = r.interleave(node.children[0], r.text());
-      parent.children.splice(index, 1, newNode);
+      const newNode = r.interleave(node.children[0], derive(r.text(), node));
+      parent.children.splice(index, 1, replacementOf(newNode, node));
     } else if (node.type == 'optional') {
-      const newNode = r.choice(node.children[0], r.empty());
-      parent.children.splice(index, 1, newNode);
+      const newNode = r.choice(node.children[0], derive(r.empty(), node));
+      parent.children.splice(index, 1, replacementOf(newNode, node));
     } else if (node.type == 'zeroOrMore') {
-      const newNode = r.choice(r.oneOrMore(node.children[0]), r.empty());
-      parent.children.splice(index, 1, newNode);
+      const newNode = r.choice(
+        derive(r.oneOrMore(node.children[0]), node),
+        derive(r.empty(), node),
+      );
+      parent.children.splice(index, 1, replacementOf(newNode, node));
     }
+    // Revisit the new node so its descendants are processed
+    return index;
+  });
+}
+
+// The namespace of xmlns attributes, which are not attributes in the
+// data model and so cannot be matched
+export const XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns';
+
+// Checks the name classes of elements and attributes (4.16). The except
+// of an anyName cannot contain anyName, and that of an nsName cannot
+// contain anyName or nsName. Attribute names cannot be xmlns, or be in the
+// xmlns namespace. Throws an RngSchemaError at the first offending node.
+// The datatypes of data and value are checked by the validator, which
+// knows the datatype libraries.
+export function checkNameClassConstraints(tree: R.RngRoot) {
+  visit(tree, ['element', 'attribute'], (node) => {
+    if (node.type != 'element' && node.type != 'attribute') return;
+    checkNameClass(node.children[0], node.type == 'attribute');
   });
 }
 
-function eliminateCombineAttribute(tree: R.RngRoot) {
+// Name classes are checked along with the closest anyName or nsName
+// whose except they are in
+function checkNameClass(
+  node: R.NameClass,
+  inAttribute: boolean,
+  excepted?: R.AnyName | R.NsName,
+) {
+  switch (node.type) {
+    case 'anyName':
+    case 'nsName':
+      if (excepted && (node.type == 'anyName' || excepted.type == 'nsName'))
+        throw new RngSchemaError(
+          'invalid-except',
+          `The except of ${excepted.type} cannot contain ${node.type}`,
+          node,
+        );
+      if (inAttribute && node.type == 'nsName' && node.ns == XMLNS_NAMESPACE)
+        throw xmlnsError(node);
+      for (const child of node.except?.children ?? [])
+        checkNameClass(child, inAttribute, node);
+      break;
+    case 'name':
+      if (inAttribute && node.ns == '' && node.name == 'xmlns')
+        throw new RngSchemaError(
+          'xmlns-attribute',
+          'Attributes cannot be named xmlns',
+          node,
+        );
+      if (inAttribute && node.ns == XMLNS_NAMESPACE) throw xmlnsError(node);
+      break;
+    case 'nameChoice':
+      for (const child of node.children)
+        checkNameClass(child, inAttribute, excepted);
+      break;
+  }
+}
+
+function xmlnsError(node: R.Name | R.NsName) {
+  return new RngSchemaError(
+    'xmlns-attribute',
+    `Attributes cannot be in the namespace ${XMLNS_NAMESPACE}`,
+    node,
+  );
+}
+
+export function eliminateCombineAttribute(tree: R.RngRoot) {
   visit(tree, 'grammar', (node) => {
     // First collect the "define" children based on their name, and all "start" children
     // together
@@ -160,7 +708,7 @@ function eliminateCombineAttribute(tree: R.RngRoot) {
 // 3. Move all defines to top grammar
 // 4. Replace each following grammar element with its start's child
 // 5. Replace all parentRef with Ref
-function ensureOnlyOneGrammarElement(tree: R.RngRoot) {
+export function ensureOnlyOneGrammarElement(tree: R.RngRoot) {
   const topGrammar = ensureTopLevelGrammar(tree);
   const allGrammars = selectAll('grammar', tree) as R.Grammar[];
   const names = new Set<string>();
@@ -186,19 +734,12 @@ function ensureOnlyOneGrammarElement(tree: R.RngRoot) {
   // We visit all 'ref' and 'parentRef' nodes and fix them
   visitParents(tree, (node, ancestors) => {
     if (node.type != 'ref' && node.type != 'parentRef') return;
-    if (!substitutions.has(node.name)) return; // No need to do work
     const grammar = findClosestGrammar(ancestors, node.type);
-    const relevantSubs = substitutions.get(node.name);
-    if (relevantSubs == undefined)
-      throw new Error('Logic error! Should not happen.');
-    for (const [gr, newName] of relevantSubs) {
-      if (gr == grammar) {
-        node.name = newName;
-        if (node.type == 'parentRef') (node as unknown as R.Ref).type = 'ref';
-        return;
-      }
+    // A define keeps its name in the grammar where the name was first seen
+    for (const [gr, newName] of substitutions.get(node.name) ?? []) {
+      if (gr == grammar) node.name = newName;
     }
-    throw new Error(`Should have found a substitution for ${node.name}`);
+    if (node.type == 'parentRef') (node as unknown as R.Ref).type = 'ref';
   });
   // Now we need to revisit all grammars and supplant them
   visit(tree, 'grammar', (node, index, parent) => {
@@ -208,8 +749,10 @@ function ensureOnlyOneGrammarElement(tree: R.RngRoot) {
     for (const child of node.children) {
       if (child.type == 'define') topGrammar.children.push(child);
     }
-    // Replace with start's child element
-    parent.children.splice(index, 1, node.children[0].children[0]);
+    // Replace with start's child element. Combine elimination
+    // has already placed the start first.
+    const start = node.children[0] as R.Start;
+    parent.children.splice(index, 1, start.children[0]);
   });
 }
 
@@ -218,23 +761,27 @@ function ensureOnlyOneGrammarElement(tree: R.RngRoot) {
 // 1. Remove unreachable defines
 // 2. For every Element not child of define: Put a ref and create a define for it
 // 3. Substitute refs whose defines are not Element, then expand within those
-//      - This must not result in a loop. But we will NOT check for it.
+//      - This must not result in a loop, which is reported
 // 4. Remove the defines that are not Element
-function canonicalDefineAndElement(tree: R.RngRoot) {
+export function canonicalDefineAndElement(tree: R.RngRoot) {
+  checkUndefinedReferences(tree);
   // 1. Remove defines that are unreachable
   removeUnreachableDefines(tree);
   // 2. Set all Elements as new defines.
   createDefinesForEachElement(tree);
-  // 3. Substitute refs. We will assume no loops are possible
+  // 3. Substitute refs, once there are no loops
   const topGrammar = ensureTopLevelGrammar(tree);
   const definesByName = getMapOfDefines(topGrammar);
+  checkReferenceLoops(definesByName);
   visit(tree, 'ref', (node, index, parent) => {
     if (index == undefined || parent == undefined) return;
     if (node.type == 'ref') {
       const defineChild = definesByName.get(node.name)!.children[0];
       // Don't substitute defines that are Elements
-      if (defineChild.type !== 'element')
-        parent.children.splice(index, 1, defineChild);
+      if (defineChild.type === 'element') return;
+      // Each ref gets its own copy, which is revisited for the refs in it
+      parent.children.splice(index, 1, copyTree(defineChild));
+      return index;
     }
   });
   // 4. Remove defines that are not Element
@@ -243,6 +790,46 @@ function canonicalDefineAndElement(tree: R.RngRoot) {
   );
 }
 
+// Every ref must name a define of the grammar, which now has them all
+function checkUndefinedReferences(tree: R.RngRoot) {
+  const topGrammar = ensureTopLevelGrammar(tree);
+  const definesByName = getMapOfDefines(topGrammar);
+  visit(tree, 'ref', (node) => {
+    if (node.type != 'ref' || definesByName.has(node.name)) return;
+    throw new RngSchemaError(
+      'undefined-reference',
+      `Reference to undefined define: ${node.name}`,
+      node,
+    );
+  });
+}
+
+// Expanding the refs to defines that are not elements must end. Refs
+// within elements end the expansion, and these have their own defines
+// by now, so any ref within another define continues it.
+function checkReferenceLoops(definesByName: Map<string, R.Define>) {
+  const checked = new Set<string>();
+  const expand = (define: R.Define, expanding: string[]) => {
+    if (define.children[0].type == 'element' || checked.has(define.name))
+      return;
+    const loop = expanding.indexOf(define.name);
+    if (loop >= 0) {
+      const names = [...expanding.slice(loop), define.name];
+      throw new RngSchemaError(
+        'reference-loop',
+        `Reference loop through defines: ${names.join(' -> ')}`,
+        define,
+      );
+    }
+    visit(define, 'ref', (node) => {
+      if (node.type != 'ref') return;
+      expand(definesByName.get(node.name)!, [...expanding, define.name]);
+    });
+    checked.add(define.name);
+  };
+  definesByName.forEach((define) => expand(define, []));
+}
+
 function removeUnreachableDefines(tree: R.RngRoot) {
   const topGrammar = ensureTopLevelGrammar(tree);
   const reachedNames = new Set<string>();
@@ -258,13 +845,13 @@ function removeUnreachableDefines(tree: R.RngRoot) {
       const oldIndex = topGrammar.children.indexOf(defineToMove);
       const newIndex = reachedNames.size; // We count entry for start. So 1st define goes at 1
       topGrammar.children.splice(oldIndex, 1);
-      topGrammar.children.splice(newIndex, 1, defineToMove);
+      topGrammar.children.splice(newIndex, 0, defineToMove);
     } else if (node.type == 'define' && !reachedNames.has(node.name)) {
       // All the defines that are reachable are visited first. If a define is not
       // reachable by now then all remaining defines are not reachable, and we can
       // remove them and end the visit. Otherwise we visit it normally. Otherwise continue as normal
       // We don't need the parent here as we know all defines are in the topGrammar
-      topGrammar.children.slice(0, index);
+      topGrammar.children = topGrammar.children.slice(0, index);
       return EXIT;
     }
   });
@@ -281,8 +868,8 @@ function createDefinesForEachElement(tree: R.RngRoot) {
       // them later. So we just need to create them here.
       createdCount += 1;
       const newName = `elem__${createdCount}`;
-      topGrammar.children.push(r.define(newName, node));
-      parent.children.splice(index, 1, r.ref(newName));
+      topGrammar.children.push(derive(r.define(newName, node), node));
+      parent.children.splice(index, 1, derive(r.ref(newName), node));
       // The created element will be revisited as part of the define
       // So we skip its children for now
       return SKIP;
@@ -291,16 +878,17 @@ function createDefinesForEachElement(tree: R.RngRoot) {
 }
 
 // Eliminate notAllowed if not child of Element or Start
-function limitLocationsOfNotAllowed(tree: R.RngRoot) {
+export function limitLocationsOfNotAllowed(tree: R.RngRoot) {
   visitPostOrder(tree, (node, index, parent) => {
     if (index == undefined || parent == undefined) return;
-    const replace = () => parent.children.splice(index, 1, r.notAllowed());
+    const replace = () =>
+      parent.children.splice(index, 1, derive(r.notAllowed(), node));
     const el = node as R.Content;
     switch (el.type) {
       case 'attribute':
         if (el.children[1]!.type == 'notAllowed') replace();
         break;
-      // Unaccounted case: 'list'
+      case 'list':
       case 'group':
       case 'interleave':
       case 'oneOrMore':
@@ -312,7 +900,11 @@ function limitLocationsOfNotAllowed(tree: R.RngRoot) {
         else if (el.children[1].type == 'notAllowed')
           parent.children.splice(index, 1, el.children[0]);
         break;
-      // Unaccounted case: 'except'
+      // An except of notAllowed excludes nothing
+      case 'except':
+        if (el.children[0].type == 'notAllowed')
+          parent.children.splice(index, 1);
+        break;
     }
   });
   // Now more defines may have become unreachable
@@ -321,10 +913,11 @@ function limitLocationsOfNotAllowed(tree: R.RngRoot) {
 
 // transformed so that an empty element does not occur as a child of
 // a group, interleave, or oneOrMore element or as the second child of a choice element
-function avoidEmptyInGroupSpots(tree: R.RngRoot) {
+export function avoidEmptyInGroupSpots(tree: R.RngRoot) {
   visitPostOrder(tree, (node, index, parent) => {
     if (index == undefined || parent == undefined) return;
-    const replace = () => parent.children.splice(index, 1, r.empty());
+    const replace = () =>
+      parent.children.splice(index, 1, derive(r.empty(), node));
     const el = node as R.Content;
     switch (el.type) {
       case 'group':
@@ -349,6 +942,29 @@ function avoidEmptyInGroupSpots(tree: R.RngRoot) {
 
 // HELPERS
 
+// A node that replaces another one also takes over its annotations
+function replacementOf<T extends U.Node>(node: T, source: U.Node): T {
+  derive(node, source);
+  const annotations = source.data?.annotations;
+  if (annotations) node.data = { ...node.data, annotations };
+  return node;
+}
+
+// Gives a node created during simplification the source of the nodes it
+// replaces or combines: a position spanning theirs, and their url. Only
+// sources from the same resource as the first one are spanned.
+function derive<T extends U.Node>(node: T, ...sources: U.Node[]): T {
+  const located = sources.filter((source) => source.position != undefined);
+  if (located.length == 0) return node;
+  const url = located[0].data?.url;
+  const sameResource = located.filter((source) => source.data?.url == url);
+  const start = sameResource[0].position!.start;
+  const end = sameResource[sameResource.length - 1].position!.end;
+  node.position = { start: { ...start }, end: { ...end } };
+  if (url != undefined) node.data = { ...node.data, url };
+  return node;
+}
+
 // Helpers for grammar collapsing
 function compare(a: string | undefined, b: string | undefined): number {
   if (a == undefined) return -1;
@@ -382,15 +998,45 @@ function combine(
         'Cannot have multiple ${errorName} with different combine values',
       );
     }
-    const result =
+    const combined =
       p1.combine == 'choice'
-        ? builder(r.choice(p1.children[0], p2.children[0]))
-        : builder(r.interleave(p1.children[0], p2.children[0]));
+        ? r.choice(p1.children[0], p2.children[0])
+        : r.interleave(p1.children[0], p2.children[0]);
+    const result = derive(builder(derive(combined, p1, p2)), p1, p2);
     result.combine = p1.combine;
     return result;
   });
 }
 
+// Collects the starts and defines in grammar content, looking into divs
+function collectComponents(
+  content: R.GrammarContent[],
+): Array<R.Start | R.Define> {
+  return content.flatMap((ch) => {
+    if (ch.type == 'div') return collectComponents(ch.children);
+    if (ch.type == 'start' || ch.type == 'define') return [ch];
+    return [];
+  });
+}
+
+// Removes the grammar content matching the test, looking into divs.
+// Returns whether anything was removed
+function removeComponents(
+  parent: R.Grammar | R.Div,
+  test: (node: R.GrammarContent) => boolean,
+): boolean {
+  let removed = false;
+  parent.children = parent.children.filter((ch) => {
+    if (test(ch)) {
+      removed = true;
+      return false;
+    }
+    if (ch.type == 'div') removed = removeComponents(ch, test) || removed;
+    return true;
+  });
+  return removed;
+}
+
 function determineNewName(name: string, names: Set<string>) {
   // Determines a new name by continuously increasing a constant
   let n = 0;
@@ -405,8 +1051,13 @@ function determineNewName(name: string, names: Set<string>) {
 function ensureTopLevelGrammar(tree: R.RngRoot) {
   if (tree.children.length !== 1)
     throw new Error('Must have exactly one top level element');
-  if (tree.children[0].type != 'grammar')
-    tree.children[0] = r.grammar(r.start(tree.children[0]), []);
+  if (tree.children[0].type != 'grammar') {
+    const pattern = tree.children[0];
+    tree.children[0] = derive(
+      r.grammar(derive(r.start(pattern), pattern)),
+      pattern,
+    );
+  }
   return tree.children[0];
 }
 
@@ -430,7 +1081,7 @@ function findClosestGrammar(
 
 function getMapOfDefines(grammar: R.Grammar) {
   const definesByName = new Map<string, R.Define>();
-  const [, _defines] = grammar.children as [R.Start, Array<R.Define>];
+  const [, ..._defines] = grammar.children as [R.Start, ...Array<R.Define>];
   for (const define of _defines) definesByName.set(define.name, define);
   return definesByName;
 }
@@ -0,0 +1,648 @@
+// Serializes rngast trees, including simplified ones, to the compact
+// syntax of Relax NG. See https://relaxng.org/compact-20021121.html
+
+import { visit } from 'unist-util-visit';
+import { Element as XastElement } from 'xast';
+import * as R from './rngast';
+import * as S from './simple-rngast';
+import * as b from './relaxng-builder';
+import { XML_NAMESPACE } from './rngast-simplify';
+import { XSD_DATATYPES } from './datatypes';
+import { KEYWORDS } from './rnc-to-rngast';
+
+const INDENT = '  ';
+// Patterns are broken over several lines when longer than this
+const WIDTH = 80;
+
+// The namespace, prefixes and datatype library that a node inherits
+interface Scope {
+  ns: string;
+  namespaces: Record<string, string>;
+  datatypeLibrary: string;
+}
+
+// Prints the grammar in the compact syntax. Names are printed with the
+// prefixes declared in the tree where possible. Without an ns on the top
+// pattern, the namespace of most element names is made the default.
+export function toRnc(tree: R.RngRoot | S.Root): string {
+  const top: R.Pattern = tree.children[0];
+  const defaultNs = top.ns ?? commonElementNamespace(top) ?? '';
+  const printer = new RncPrinter(tree, defaultNs);
+  const body = printer.print(top);
+  const declarations = printer.declarations();
+  if (declarations.length == 0) return body + '\n';
+  return [...declarations, '', body].join('\n') + '\n';
+}
+
+class RncPrinter {
+  defaultNs: string;
+  // The prefixes declared anywhere in the tree, and those made up for
+  // namespaces and datatype libraries without one
+  declared: Record<string, string> = {};
+  generated: Record<string, string> = {};
+  datatypePrefixes: Record<string, string> = {};
+
+  constructor(tree: R.RngRoot | S.Root, defaultNs: string) {
+    this.defaultNs = defaultNs;
+    visit(tree, (node) => {
+      const namespaces = (node as R.RngNode).namespaces ?? {};
+      for (const [prefix, uri] of Object.entries(namespaces)) {
+        if (prefix != 'xml' && !(prefix in this.declared))
+          this.declared[prefix] = uri;
+      }
+    });
+  }
+
+  print(top: R.Pattern): string {
+    const scope = { ns: '', namespaces: {}, datatypeLibrary: '' };
+    if (top.type != 'grammar') return this.pattern(top, scope, 0);
+    // The top grammar is the whole file, without braces
+    return this.grammarContents(top, enter(top, scope), 0);
+  }
+
+  declarations(): string[] {
+    const lines: string[] = [];
+    if (this.defaultNs != '')
+      lines.push(`default namespace = ${literal(this.defaultNs)}`);
+    const prefixes = { ...this.declared };
+    for (const [uri, prefix] of Object.entries(this.generated)) {
+      prefixes[prefix] = uri;
+    }
+    for (const [prefix, uri] of Object.entries(prefixes)) {
+      lines.push(`namespace ${prefix} = ${literal(uri)}`);
+    }
+    for (const [uri, prefix] of Object.entries(this.datatypePrefixes)) {
+      lines.push(`datatypes ${prefix} = ${literal(uri)}`);
+    }
+    return lines;
+  }
+
+  // GRAMMAR CONTENT
+  // Annotation elements of the grammar come first, then the content,
+  // separated by blank lines
+  private grammarContents(
+    node: R.Grammar | R.Div | R.Include,
+    scope: Scope,
+    level: number,
+  ): string {
+    const elements = node.data?.annotations?.elements ?? [];
+    const items = [
+      ...elements.map((el) => this.annotationElement(el)),
+      ...node.children.map((ch) => this.grammarContent(ch, scope, level)),
+    ];
+    return items.join('\n\n' + pad(level));
+  }
+
+  private grammarContent(
+    node: R.GrammarContent,
+    scope: Scope,
+    level: number,
+  ): string {
+    scope = enter(node, scope);
+    switch (node.type) {
+      case 'start':
+      case 'define': {
+        const name = node.type == 'start' ? 'start' : identifier(node.name);
+        const assign = assignMethod(node.combine);
+        const content = this.sequence(node.children, scope, level + 1);
+        const text =
+          content.includes('\n') || !fits(`${name} ${assign} ${content}`, level)
+            ? `${name} ${assign}\n${pad(level + 1)}${content}`
+            : `${name} ${assign} ${content}`;
+        return this.annotated(node, text, level);
+      }
+      case 'div':
+        return this.annotated(
+          node,
+          this.braces(
+            'div',
+            this.grammarContents(node, scope, level + 1),
+            level,
+          ),
+          level,
+        );
+      case 'include': {
+        const head = `include ${literal(node.href)}${this.inherit(scope)}`;
+        const hasContent =
+          node.children.length > 0 ||
+          (node.data?.annotations?.elements ?? []).length > 0;
+        const text = hasContent
+          ? this.braces(
+              head,
+              this.grammarContents(node, scope, level + 1),
+              level,
+            )
+          : head;
+        return this.annotated(node, text, level);
+      }
+    }
+  }
+
+  // Included and external grammars inherit the namespace of the include
+  private inherit(scope: Scope): string {
+    if (scope.ns == this.defaultNs) return '';
+    return ` inherit = ${this.prefixFor(scope.ns)}`;
+  }
+
+  // PATTERNS
+  // Annotated patterns are parenthesized unless primary, so that the
+  // annotations apply to the whole pattern
+  private pattern(node: R.Pattern, scope: Scope, level: number): string {
+    scope = enter(node, scope);
+    const text =
+      hasLeadAnnotations(node) && precedence(node) != 'primary'
+        ? parenthesize(this.unannotated(node, scope, level + 1), level)
+        : this.unannotated(node, scope, level);
+    return this.annotated(node, text, level);
+  }
+
+  private unannotated(node: R.Pattern, scope: Scope, level: number): string {
+    const repeat = asRepeat(node);
+    if (repeat) {
+      const [suffix, children] = repeat;
+      return this.operand(children, scope, level, 'postfix') + suffix;
+    }
+    switch (node.type) {
+      case 'elementNamed':
+        return this.braced(
+          `element ${this.elementName(node.name, scope)}`,
+          node.children,
+          scope,
+          level,
+        );
+      case 'element': {
+        const [nameClass, ...content] = node.children;
+        const name = this.nameClass(nameClass, scope, false, true);
+        return this.braced(`element ${name}`, content, scope, level);
+      }
+      case 'attributeNamed': {
+        const name = this.attributeName(node.name, node.ns ?? '', scope);
+        const content = node.children.length ? node.children : [b.text()];
+        return this.braced(`attribute ${name}`, content, scope, level);
+      }
+      case 'attribute': {
+        const [nameClass, content = b.text()] = node.children;
+        const name = this.nameClass(nameClass, scope, true, true);
+        return this.braced(`attribute ${name}`, [content], scope, level);
+      }
+      case 'group':
+      case 'interleave':
+      case 'choice': {
+        const operator = OPERATORS[node.type];
+        if (node.children.length == 0)
+          return node.type == 'choice' ? 'notAllowed' : 'empty';
+        if (node.children.length == 1)
+          return this.pattern(node.children[0], scope, level);
+        const parts = flatten(node).map((ch) =>
+          this.operand([ch], scope, level, 'binary'),
+        );
+        return joinOperands(operator, parts, level);
+      }
+      case 'list':
+      case 'mixed':
+        return this.braced(node.type, node.children, scope, level);
+      case 'ref':
+        return identifier(node.name);
+      case 'parentRef':
+        return `parent ${identifier(node.name)}`;
+      case 'empty':
+      case 'text':
+      case 'notAllowed':
+        return node.type;
+      // Values without a type have the token type of the built-in
+      // library, whatever the library in scope (4.4)
+      case 'value': {
+        const dataType = node.dataType ?? 'token';
+        const library = node.dataType ? scope.datatypeLibrary : '';
+        if (library == '' && dataType == 'token') return literal(node.value);
+        return `${this.datatypeName(dataType, library)} ${literal(node.value)}`;
+      }
+      case 'data':
+        return this.data(node, scope, level);
+      case 'externalRef':
+        return `external ${literal(node.href)}${this.inherit(scope)}`;
+      case 'grammar':
+        return this.braces(
+          'grammar',
+          this.grammarContents(node, scope, level + 1),
+          level,
+        );
+      default:
+        // The repeats are handled by asRepeat
+        throw new Error(`Cannot print pattern: ${node.type}`);
+    }
+  }
+
+  // Prints patterns that are operands of a binary or postfix operator,
+  // adding parentheses where needed. Several patterns are a group.
+  private operand(
+    children: R.Pattern[],
+    scope: Scope,
+    level: number,
+    context: 'binary' | 'postfix',
+  ): string {
+    if (children.length != 1)
+      return parenthesize(this.sequence(children, scope, level + 1), level);
+    const [child] = children;
+    const childPrecedence = precedence(child);
+    const needsParentheses =
+      !hasLeadAnnotations(child) &&
+      (childPrecedence == 'binary' ||
+        (childPrecedence == 'postfix' && context == 'postfix'));
+    if (!needsParentheses) return this.pattern(child, scope, level);
+    return parenthesize(this.pattern(child, scope, level + 1), level);
+  }
+
+  // The children of element, define and similar patterns form a group
+  private sequence(children: R.Pattern[], scope: Scope, level: number) {
+    if (children.length == 0) return 'empty';
+    if (children.length == 1) return this.pattern(children[0], scope, level);
+    const group: R.Group = { type: 'group', children };
+    return this.pattern(group, scope, level);
+  }
+
+  // When the content does not fit on one line, each pattern of the
+  // group goes on its own line
+  private braced(
+    head: string,
+    children: R.Pattern[],
+    scope: Scope,
+    level: number,
+  ): string {
+    const [only] = children;
+    const patterns =
+      children.length == 1 && only.type == 'group' && !hasLeadAnnotations(only)
+        ? flatten(only)
+        : children;
+    if (patterns.length <= 1)
+      return this.braces(
+        head,
+        this.sequence(patterns, scope, level + 1),
+        level,
+      );
+    const parts = patterns.map((ch) =>
+      this.operand([ch], scope, level + 1, 'binary'),
+    );
+    const inline = `${head} { ${parts.join(', ')} }`;
+    if (!inline.includes('\n') && fits(inline, level)) return inline;
+    return this.braces(head, parts.join(',\n' + pad(level + 1)), level);
+  }
+
+  // Simple content stays on the same line as the head and braces
+  private braces(head: string, content: string, level: number): string {
+    if (content == '') return `${head} { }`;
+    const inline = `${head} { ${content} }`;
+    if (!content.includes('\n') && fits(inline, level)) return inline;
+    return `${head} {\n${pad(level + 1)}${content}\n${pad(level)}}`;
+  }
+
+  private data(node: R.Data, scope: Scope, level: number): string {
+    let text = this.datatypeName(node.dataType, scope.datatypeLibrary);
+    if (node.params.length > 0) {
+      const params = node.params.map((param) =>
+        this.annotated(
+          param,
+          `${param.name} = ${literal(param.value)}`,
+          level + 1,
+        ),
+      );
+      const separator = params.some((param) => param.includes('\n'))
+        ? '\n' + pad(level + 1)
+        : ' ';
+      text = this.braces(text, params.join(separator), level);
+    }
+    const except = node.children[0];
+    if (except) {
+      // The patterns of an except are a choice
+      const choice: R.Choice = { type: 'choice', children: except.children };
+      const pattern = except.children.length == 1 ? except.children[0] : choice;
+      text += ` - ${this.operand([pattern], enter(except, scope), level, 'postfix')}`;
+    }
+    return text;
+  }
+
+  private datatypeName(dataType: string, library: string): string {
+    if (library == '' && (dataType == 'string' || dataType == 'token'))
+      return dataType;
+    if (library == XSD_DATATYPES) return `xsd:${dataType}`;
+    if (!(library in this.datatypePrefixes)) {
+      const count = Object.keys(this.datatypePrefixes).length;
+      this.datatypePrefixes[library] = `dt${count + 1}`;
+    }
+    return `${this.datatypePrefixes[library]}:${dataType}`;
+  }
+
+  // NAMES
+  // Element names in the default namespace are unprefixed
+  private elementName(name: string, scope: Scope): string {
+    const [uri, local] = resolveName(name, scope.ns, scope);
+    if (uri == undefined) return name;
+    if (uri == this.defaultNs) return local;
+    return `${this.prefixFor(uri)}:${local}`;
+  }
+
+  // Unprefixed attribute names are in no namespace
+  private attributeName(name: string, ns: string, scope: Scope): string {
+    const [uri, local] = resolveName(name, ns, scope);
+    if (uri == undefined) return name;
+    if (uri == '') return local;
+    return `${this.prefixFor(uri)}:${local}`;
+  }
+
+  // Name choices are parenthesized as the name of an element or attribute
+  private nameClass(
+    node: R.NameClass,
+    scope: Scope,
+    forAttribute: boolean,
+    asName: boolean = false,
+  ): string {
+    scope = enter(node, scope);
+    let text: string;
+    switch (node.type) {
+      case 'name':
+        text = forAttribute
+          ? this.attributeName(node.name, scope.ns, scope)
+          : this.elementName(node.name, scope);
+        break;
+      case 'anyName':
+        text = '*' + this.nameClassExcept(node, scope, forAttribute);
+        break;
+      case 'nsName':
+        text = `${this.prefixFor(scope.ns)}:*`;
+        text += this.nameClassExcept(node, scope, forAttribute);
+        break;
+      case 'nameChoice': {
+        const parts = flattenNameChoice(node).map((ch) =>
+          this.nameClass(ch, scope, forAttribute),
+        );
+        text = parts.join(' | ');
+        if (asName) text = `(${text})`;
+        break;
+      }
+    }
+    return this.annotated(node, text, 0);
+  }
+
+  private nameClassExcept(
+    node: R.AnyName | R.NsName,
+    scope: Scope,
+    forAttribute: boolean,
+  ): string {
+    const except = node.except;
+    if (except == undefined || except.children.length == 0) return '';
+    const choice: R.NameChoice = {
+      type: 'nameChoice',
+      children: except.children,
+    };
+    const nameClass = except.children.length == 1 ? except.children[0] : choice;
+    const text = this.nameClass(nameClass, enter(except, scope), forAttribute);
+    const bare =
+      nameClass.type == 'name' ||
+      ((nameClass.type == 'anyName' || nameClass.type == 'nsName') &&
+        nameClass.except == undefined);
+    return ` - ${bare ? text : `(${text})`}`;
+  }
+
+  private prefixFor(uri: string): string {
+    if (uri == XML_NAMESPACE) return 'xml';
+    const declared = Object.keys(this.declared).find(
+      (prefix) => this.declared[prefix] == uri,
+    );
+    if (declared != undefined) return declared;
+    if (!(uri in this.generated)) {
+      const taken = new Set([
+        ...Object.keys(this.declared),
+        ...Object.values(this.generated),
+      ]);
+      let prefix = uri == '' ? 'local' : 'ns1';
+      for (let n = 2; taken.has(prefix); n++) prefix = `ns${n}`;
+      this.generated[uri] = prefix;
+    }
+    return this.generated[uri];
+  }
+
+  // ANNOTATIONS
+  // Documentation is printed as ## comments, and other annotations in
+  // brackets, before the node
+  private annotated(node: R.RngNode, text: string, level: number): string {
+    const annotations = node.data?.annotations;
+    if (annotations == undefined) return text;
+    const lines: string[] = [];
+    if (annotations.documentation != undefined) {
+      for (const line of annotations.documentation.split('\n')) {
+        lines.push(line == '' ? '##' : `## ${line}`);
+      }
+    }
+    const items = Object.entries(annotations.attributes ?? {}).map(
+      ([name, value]) => `${name} = ${literal(value)}`,
+    );
+    // The annotation elements of grammar content are printed in it
+    if (!isGrammarLike(node))
+      items.push(
+        ...(annotations.elements ?? []).map((el) => this.annotationElement(el)),
+      );
+    if (items.length > 0) text = `[ ${items.join(' ')} ] ${text}`;
+    return [...lines, text].join('\n' + pad(level));
+  }
+
+  private annotationElement(el: XastElement): string {
+    const items = Object.entries(el.attributes).map(
+      ([name, value]) => `${name} = ${literal(String(value))}`,
+    );
+    for (const child of el.children) {
+      if (child.type == 'text') items.push(literal(child.value));
+      else if (child.type == 'element')
+        items.push(this.annotationElement(child));
+    }
+    return `${el.name} [ ${items.length ? items.join(' ') + ' ' : ''}]`;
+  }
+}
+
+const OPERATORS = { group: ',', interleave: '&', choice: '|' };
+
+type Precedence = 'binary' | 'postfix' | 'primary';
+
+function precedence(node: R.Pattern): Precedence {
+  if (asRepeat(node)) return 'postfix';
+  switch (node.type) {
+    case 'group':
+    case 'interleave':
+    case 'choice':
+      if (node.children.length == 1) return precedence(node.children[0]);
+      return node.children.length > 1 ? 'binary' : 'primary';
+    default:
+      return 'primary';
+  }
+}
+
+// The namespace of most element names, which is made the default
+function commonElementNamespace(top: R.Pattern): string | undefined {
+  const counts: Record<string, number> = {};
+  const countName = (name: string, scope: Scope) => {
+    const [uri] = resolveName(name, scope.ns, scope);
+    if (uri != undefined) counts[uri] = (counts[uri] ?? 0) + 1;
+  };
+  const countNameClass = (node: R.NameClass, scope: Scope) => {
+    scope = enter(node, scope);
+    if (node.type == 'name') countName(node.name, scope);
+    if (node.type == 'nameChoice')
+      node.children.forEach((ch) => countNameClass(ch, scope));
+  };
+  const count = (node: R.Content, scope: Scope) => {
+    scope = enter(node, scope);
+    if (node.type == 'elementNamed') countName(node.name, scope);
+    if (node.type == 'element') countNameClass(node.children[0], scope);
+    if ('children' in node)
+      node.children.forEach((ch: R.Content) => count(ch, scope));
+  };
+  count(top, { ns: '', namespaces: {}, datatypeLibrary: '' });
+  const entries = Object.entries(counts);
+  if (entries.length == 0) return undefined;
+  return entries.reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+}
+
+// The suffix and operands of optional, zeroOrMore and oneOrMore. The
+// simplified forms of optional and zeroOrMore, a choice of empty and
+// another pattern, are printed the same way.
+function asRepeat(node: R.Pattern): [string, R.Pattern[]] | undefined {
+  switch (node.type) {
+    case 'optional':
+      return ['?', node.children];
+    case 'zeroOrMore':
+      return ['*', node.children];
+    case 'oneOrMore':
+      return ['+', node.children];
+    case 'choice': {
+      if (node.children.length != 2 || node.data?.annotations) return undefined;
+      const [first, second] = node.children;
+      const other =
+        first.type == 'empty' ? second : second.type == 'empty' ? first : null;
+      if (other == null || other.type == 'empty') return undefined;
+      if (other.type == 'oneOrMore' && !other.data?.annotations)
+        return ['*', other.children];
+      return ['?', [other]];
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Nested binary patterns of the same kind are printed as one
+function flatten(node: R.Group | R.Interleave | R.Choice): R.Pattern[] {
+  return node.children.flatMap((ch) =>
+    ch.type == node.type && !asRepeat(ch) && !ch.data?.annotations
+      ? flatten(ch as typeof node)
+      : [ch],
+  );
+}
+
+function flattenNameChoice(node: R.NameChoice): R.NameClass[] {
+  return node.children.flatMap((ch) =>
+    ch.type == 'nameChoice' && !ch.data?.annotations
+      ? flattenNameChoice(ch)
+      : [ch],
+  );
+}
+
+// Operands go on separate lines when they do not fit on one
+function joinOperands(operator: string, parts: string[], level: number) {
+  const separator = operator == ',' ? ', ' : ` ${operator} `;
+  const inline = parts.join(separator);
+  if (!inline.includes('\n') && fits(inline, level)) return inline;
+  return operator == ','
+    ? parts.join(',\n' + pad(level))
+    : parts.join(`\n${pad(level)}${operator} `);
+}
+
+// The text is printed at the next level, as it is indented when it
+// spans several lines
+function parenthesize(text: string, level: number): string {
+  if (!text.includes('\n')) return `(${text})`;
+  return `(\n${pad(level + 1)}${text}\n${pad(level)})`;
+}
+
+function enter(node: R.RngNode, scope: Scope): Scope {
+  if (
+    node.ns == undefined &&
+    node.namespaces == undefined &&
+    node.datatypeLibrary == undefined
+  )
+    return scope;
+  return {
+    ns: node.ns ?? scope.ns,
+    namespaces: { ...scope.namespaces, ...node.namespaces },
+    datatypeLibrary: node.datatypeLibrary ?? scope.datatypeLibrary,
+  };
+}
+
+// The namespace uri and local name of a possibly prefixed name. The uri
+// is undefined if the prefix is not declared.
+function resolveName(
+  name: string,
+  ns: string,
+  scope: Scope,
+): [string | undefined, string] {
+  const colon = name.indexOf(':');
+  if (colon < 0) return [ns, name];
+  const prefix = name.slice(0, colon);
+  const uri = prefix == 'xml' ? XML_NAMESPACE : scope.namespaces[prefix];
+  return [uri, name.slice(colon + 1)];
+}
+
+function hasLeadAnnotations(node: R.RngNode): boolean {
+  const annotations = node.data?.annotations;
+  return (
+    annotations != undefined &&
+    (annotations.documentation != undefined ||
+      annotations.attributes != undefined ||
+      (annotations.elements ?? []).length > 0)
+  );
+}
+
+function isGrammarLike(node: R.RngNode): boolean {
+  return ['grammar', 'div', 'include'].includes(node.type);
+}
+
+function assignMethod(combine?: R.CombineMethod): string {
+  if (combine == 'choice') return '|=';
+  if (combine == 'interleave') return '&=';
+  return '=';
+}
+
+// Keywords are escaped when used as the names of definitions
+function identifier(name: string): string {
+  return KEYWORDS.has(name) ? `\\${name}` : name;
+}
+
+// Quotes the value, escaping what cannot appear in a literal. Escapes
+// are decoded before literals are read, so quotes cannot be escaped and
+// newlines need a triple-quoted literal. Values that no single literal
+// can hold are concatenated from several.
+function literal(value: string): string {
+  const escaped = value
+    .replace(/\\(?=x+\{)/g, '\\x{5C}')
+    .replace(/\n/g, '\\x{A}')
+    .replace(/\r/g, '\\x{D}');
+  if (!/[\n\r]/.test(value)) {
+    if (!value.includes('"')) return `"${escaped}"`;
+    if (!value.includes("'")) return `'${escaped}'`;
+  }
+  for (const quote of ['"', "'"]) {
+    const delimiter = quote.repeat(3);
+    if (!value.includes(delimiter) && !value.endsWith(quote))
+      return `${delimiter}${escaped}${delimiter}`;
+  }
+  return value
+    .split(/("+)/)
+    .filter((part) => part != '')
+    .map(literal)
+    .join(' ~ ');
+}
+
+function pad(level: number): string {
+  return INDENT.repeat(level);
+}
+
+function fits(text: string, level: number): boolean {
+  return pad(level).length + text.length <= WIDTH;
+}
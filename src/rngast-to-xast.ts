@@ -0,0 +1,189 @@
+// Converts rngast trees back to the XML syntax of Relax NG, the inverse
+// of convertXastToRngAst. The grammars loaded for includes and external
+// refs are not part of the tree and are left out, as are positions.
+
+import { Root as XastRoot, Element as XastElement, ElementContent } from 'xast';
+import { x } from 'xastscript';
+import { toXml } from 'xast-util-to-xml';
+import { visit } from 'unist-util-visit';
+import * as R from './rngast';
+import * as S from './simple-rngast';
+import { ANNOTATIONS_NAMESPACE, RELAXNG_NAMESPACE } from './xast-to-rngast';
+
+export { RELAXNG_NAMESPACE };
+
+const INDENT = '  ';
+
+interface ConvertContext {
+  // The prefix that documentation elements are written with, and
+  // whether any were written
+  documentationPrefix: string;
+  documented: boolean;
+}
+
+// Converts the grammar to a xast tree with the Relax NG namespace as the
+// default namespace. Documentation is written as a:documentation elements,
+// declaring the annotations namespace on the top element if needed.
+export function rngastToXast(tree: R.RngRoot | S.Root): XastRoot {
+  const top: R.Pattern = tree.children[0];
+  const declared = Object.entries(top.namespaces ?? {}).find(
+    ([, uri]) => uri == ANNOTATIONS_NAMESPACE,
+  );
+  const ctx: ConvertContext = {
+    documentationPrefix: declared?.[0] ?? unusedPrefix(top, 'a'),
+    documented: false,
+  };
+  const el = convertContent(top, ctx);
+  const attributes: XastElement['attributes'] = { xmlns: RELAXNG_NAMESPACE };
+  if (ctx.documented && !declared)
+    attributes[`xmlns:${ctx.documentationPrefix}`] = ANNOTATIONS_NAMESPACE;
+  el.attributes = { ...attributes, ...el.attributes };
+  return { type: 'root', children: [el] };
+}
+
+// Serializes the grammar as an indented Relax NG XML document
+export function toRngXml(tree: R.RngRoot | S.Root): string {
+  const root = rngastToXast(tree);
+  root.children.forEach((el) => indent(el as XastElement, 0));
+  const xml = toXml(root, { closeEmptyElements: true, tightClose: true });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${xml}\n`;
+}
+
+// A prefix that is not declared anywhere in the tree, so that it can
+// be declared on the top element without hiding another declaration
+function unusedPrefix(top: R.Pattern, base: string): string {
+  const used = new Set<string>();
+  visit(top, (node) => {
+    Object.keys((node as R.RngNode).namespaces ?? {}).forEach((prefix) =>
+      used.add(prefix),
+    );
+  });
+  let prefix = base;
+  for (let i = 1; used.has(prefix); i++) prefix = `${base}${i}`;
+  return prefix;
+}
+
+// The nodes that are written as elements
+type Convertible = R.Content | R.Param | R.ExceptNameClass;
+
+function convertContent(node: Convertible, ctx: ConvertContext): XastElement {
+  const [name, attributes, children] = convertParts(node, ctx);
+  const el = x(name, attributes);
+  convertInheritedAttributes(node, el);
+  el.children = [...convertAnnotations(node, el, ctx), ...children];
+  return el;
+}
+
+type Parts = [string, Record<string, string | undefined>, ElementContent[]];
+
+// The name, attributes and children of the element for the node
+function convertParts(node: Convertible, ctx: ConvertContext): Parts {
+  const children = (nodes: Convertible[]): ElementContent[] =>
+    nodes.map((ch) => convertContent(ch, ctx));
+  const text = (value: string): ElementContent[] => [{ type: 'text', value }];
+  switch (node.type) {
+    case 'elementNamed':
+      return ['element', { name: node.name }, children(node.children)];
+    case 'attributeNamed':
+      return ['attribute', { name: node.name }, children(node.children)];
+    case 'element':
+    case 'attribute':
+    case 'group':
+    case 'interleave':
+    case 'choice':
+    case 'optional':
+    case 'zeroOrMore':
+    case 'oneOrMore':
+    case 'list':
+    case 'mixed':
+    case 'grammar':
+    case 'div':
+    case 'except':
+      return [node.type, {}, children(node.children)];
+    case 'nameChoice':
+      return ['choice', {}, children(node.children)];
+    case 'exceptNameClass':
+      return ['except', {}, children(node.children)];
+    case 'ref':
+    case 'parentRef':
+      return [node.type, { name: node.name }, []];
+    case 'empty':
+    case 'text':
+    case 'notAllowed':
+      return [node.type, {}, []];
+    case 'value':
+      return ['value', { type: node.dataType }, text(node.value)];
+    case 'data':
+      return [
+        'data',
+        { type: node.dataType },
+        children([...node.params, ...node.children]),
+      ];
+    case 'param':
+      return ['param', { name: node.name }, text(node.value)];
+    case 'externalRef':
+      return ['externalRef', { href: node.href }, []];
+    case 'start':
+      return ['start', { combine: node.combine }, children(node.children)];
+    case 'define':
+      return [
+        'define',
+        { name: node.name, combine: node.combine },
+        children(node.children),
+      ];
+    case 'include':
+      return ['include', { href: node.href }, children(node.children)];
+    case 'name':
+      return ['name', {}, text(node.name)];
+    case 'anyName':
+    case 'nsName':
+      return [node.type, {}, node.except ? children([node.except]) : []];
+  }
+}
+
+// Writes the ns and datatypeLibrary attributes and the namespace
+// prefix declarations
+function convertInheritedAttributes(node: R.RngNode, el: XastElement) {
+  for (const [prefix, uri] of Object.entries(node.namespaces ?? {}))
+    el.attributes[`xmlns:${prefix}`] = uri;
+  if (node.ns != undefined) el.attributes.ns = node.ns;
+  if (node.datatypeLibrary != undefined)
+    el.attributes.datatypeLibrary = node.datatypeLibrary;
+}
+
+// Adds the annotation attributes to the element, and returns the
+// documentation and annotation elements that precede its children
+function convertAnnotations(
+  node: R.RngNode,
+  el: XastElement,
+  ctx: ConvertContext,
+): ElementContent[] {
+  const annotations = node.data?.annotations;
+  if (annotations == undefined) return [];
+  Object.assign(el.attributes, annotations.attributes);
+  const elements: ElementContent[] = [];
+  if (annotations.documentation != undefined) {
+    ctx.documented = true;
+    const name = `${ctx.documentationPrefix}:documentation`;
+    elements.push(x(name, annotations.documentation));
+  }
+  return [...elements, ...(annotations.elements ?? [])];
+}
+
+// Puts each child element on its own line. Elements with text, such as
+// values, and annotation elements are left as they are.
+function indent(el: XastElement, level: number) {
+  if (el.children.length == 0 || isAnnotationName(el.name)) return;
+  if (el.children.some((ch) => ch.type != 'element')) return;
+  const children = el.children as XastElement[];
+  const pad = (n: number): ElementContent => ({
+    type: 'text',
+    value: '\n' + INDENT.repeat(n),
+  });
+  children.forEach((ch) => indent(ch, level + 1));
+  el.children = [...children.flatMap((ch) => [pad(level + 1), ch]), pad(level)];
+}
+
+function isAnnotationName(name: string) {
+  return name.includes(':');
+}
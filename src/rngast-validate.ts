@@ -1,13 +1,32 @@
 // Attempt at validator for Pretext Documents using RelaxNG
 
-import { Element, ElementContent, XastNode as XastNode } from 'xast';
+import { Element, ElementContent, Nodes as XastNode } from 'xast';
+import { visit } from 'unist-util-visit';
 import {
+  Data,
   Define,
+  Div,
   Grammar,
+  GrammarContent,
+  List,
+  NameClass,
   Pattern,
   RngRoot as RngAstRoot,
   Start,
+  Value,
 } from './rngast';
+import {
+  propagateDatatypeLibraries,
+  resolveNamespaces,
+  XML_NAMESPACE,
+} from './rngast-simplify';
+import * as r from './relaxng-builder';
+import {
+  Datatype,
+  DatatypeLibraries,
+  defaultDatatypeLibraries,
+} from './datatypes';
+import { RngValidationError, RngValidationErrorCode } from './errors';
 
 export const expected = {
   text: (found: string) => `Expected text but found ${found}`,
@@ -21,19 +40,43 @@ export const expected = {
     `Expected no contents but found ${numMissed} children`,
   unexpectedElem: (name: string) => `Unexpected element: ${name}`,
   noMatch: () => 'Could not find matching choice',
+  list: (found: string) => `Expected a list of tokens but found "${found}"`,
+  data: (type: string, found: string) =>
+    `Expected a value of type ${type} but found "${found}"`,
+  value: (value: string, found: string) =>
+    `Expected value "${value}" but found "${found}"`,
+  notAllowed: () => 'Nothing is allowed here',
 };
 
+export interface ValidatorOptions {
+  // Datatype libraries by URI, for checking data patterns.
+  // Defaults to the built-in and XML Schema libraries.
+  datatypes?: DatatypeLibraries;
+}
+
+// A problem recorded at the node that it is about, with the define of the
+// pattern that failed. Records are plain data, so that validated trees
+// can still be serialized.
+export interface ValidationProblem {
+  code: RngValidationErrorCode;
+  reason: string;
+  define?: string;
+}
+
 // Reopen the xast Data interface to add a validation entry
 declare module 'xast' {
   interface Data {
-    validation?: Problem[];
+    validation?: ValidationProblem[];
   }
 }
 
-// Identifies a problem at a particular node
-type Problem = string;
-// A problem situated at a node
-type ProblemNode = [XastNode, Problem];
+// A problem found while matching, before it is recorded. It has the node
+// that it is about if that is not the element being matched.
+interface Problem extends ValidationProblem {
+  node?: XastNode;
+}
+// A problem recorded at a node
+type ProblemNode = [XastNode, RngValidationError];
 // Indicates whether a particular rule was applicable
 // at the given tag
 type Applicable = boolean;
@@ -42,6 +85,9 @@ type Applicable = boolean;
 // and a set of attributes on the parent node against an
 // array of specifications.
 type Context = [Element['children'], Element['attributes']];
+// The namespace prefixes in scope at an element. The default
+// namespace is under the empty prefix
+type Scope = Record<string, string>;
 // The result of validation of an array of patterns against
 // a context. The triple indicates:
 // - whether the top level matches are possible
@@ -50,14 +96,21 @@ type Context = [Element['children'], Element['attributes']];
 type ValidationResult = [Applicable, Problem[], Context];
 
 function addProblems(target: XastNode, problems: Problem[]) {
-  target.data ||= { validation: [] };
-  target.data.validation ||= [];
-  target.data.validation.push(...problems);
+  for (const { node = target, ...problem } of problems) {
+    node.data ||= {};
+    node.data.validation ||= [];
+    node.data.validation.push(problem);
+  }
 }
 
-function endValidationOnNode(el: Element, result: ValidationResult) {
+// The content left over is unexpected, in the define of the element
+function endValidationOnNode(
+  el: Element,
+  result: ValidationResult,
+  define?: string,
+) {
   const [, innerProbs1, ctx] = result;
-  const innerProbs2 = unexpected(ctx);
+  const innerProbs2 = unexpected(ctx, define);
   addProblems(el, innerProbs1);
   addProblems(el, innerProbs2);
 }
@@ -69,8 +122,55 @@ function invalid(ctx: Context, problem: Problem): ValidationResult {
   return [false, [problem], ctx];
 }
 
-function elemCtx(el: Element): Context {
-  return [el.children, el.attributes];
+// Names are compared as (namespace, local name) pairs. In messages and as
+// keys of the context attributes they are written in Clark notation,
+// {namespace}local, or as just the local name if not in a namespace.
+function expandedName(ns: string, local: string): string {
+  return ns == '' ? local : `{${ns}}${local}`;
+}
+
+function splitExpandedName(name: string): [string, string] {
+  const match = /^\{(.*)\}(.*)$/.exec(name);
+  return match ? [match[1], match[2]] : ['', name];
+}
+
+function splitQName(qname: string): [string, string] {
+  const colon = qname.indexOf(':');
+  if (colon < 0) return ['', qname];
+  return [qname.slice(0, colon), qname.slice(colon + 1)];
+}
+
+function isNamespaceDeclaration(attrName: string) {
+  return attrName == 'xmlns' || attrName.startsWith('xmlns:');
+}
+
+function matchesNameClass(nc: NameClass, ns: string, local: string): boolean {
+  switch (nc.type) {
+    case 'name':
+      return nc.name == local && (nc.ns ?? '') == ns;
+    case 'anyName':
+      return !nc.except?.children.some((ch) => matchesNameClass(ch, ns, local));
+    case 'nsName':
+      return (
+        (nc.ns ?? '') == ns &&
+        !nc.except?.children.some((ch) => matchesNameClass(ch, ns, local))
+      );
+    case 'nameChoice':
+      return nc.children.some((ch) => matchesNameClass(ch, ns, local));
+  }
+}
+
+function describeNameClass(nc: NameClass): string {
+  switch (nc.type) {
+    case 'name':
+      return expandedName(nc.ns ?? '', nc.name);
+    case 'anyName':
+      return 'any name';
+    case 'nsName':
+      return `any name in ${nc.ns ?? 'no namespace'}`;
+    case 'nameChoice':
+      return nc.children.map(describeNameClass).join(' or ');
+  }
 }
 // Combine results that are assumed to happen consecutively. The
 // assumption is that each step continued where the last step left off
@@ -137,15 +237,18 @@ function chainIfOk(
   return result!;
 }
 
-// Collects the problems from current node and recurse if asked
+// Collects the problems from current node and recurse if asked, as
+// messages placed at the node
 export function collectProblems(
   node: XastNode,
   recursive: boolean = true,
 ): ProblemNode[] {
-  const nodeProblems: ProblemNode[] = (node.data?.validation || []).map((p) => [
-    node,
-    p,
-  ]);
+  const nodeProblems = (node.data?.validation || []).map(
+    (p): ProblemNode => [
+      node,
+      new RngValidationError(p.code, p.reason, node, p.define),
+    ],
+  );
   if (recursive && 'children' in node && Array.isArray(node.children)) {
     return [
       ...nodeProblems,
@@ -157,23 +260,31 @@ export function collectProblems(
 
 // Add problem message. This is called when no other specs
 // are to be processed but there are still elements unaccounted for
-function unexpected(ctx: Context): Problem[] {
+function unexpected(ctx: Context, define?: string): Problem[] {
   const [children, attrs] = ctx;
   const keys = Object.keys(attrs);
   return [
-    ...keys.map((k) => `Unexpected attribute: ${k}`),
-    ...children
-      .map((ch) => {
-        switch (ch.type) {
-          case 'element':
-            return expected.unexpectedElem(ch.name);
-          case 'text':
-            return expected.noText();
-          default:
-            return '';
+    ...keys.map(
+      (k): Problem => ({
+        code: 'unexpected-attribute',
+        reason: `Unexpected attribute: ${k}`,
+        define,
+      }),
+    ),
+    ...children.flatMap((ch): Problem[] => {
+      switch (ch.type) {
+        case 'element': {
+          const reason = expected.unexpectedElem(ch.name);
+          return [{ code: 'unexpected-element', reason, define, node: ch }];
+        }
+        case 'text': {
+          const reason = expected.noText();
+          return [{ code: 'unexpected-text', reason, define, node: ch }];
         }
-      })
-      .filter((p) => p != ''),
+        default:
+          return [];
+      }
+    }),
   ];
 }
 
@@ -182,12 +293,18 @@ export class RelaxNgValidator {
   grammar: Grammar;
   specStart: Start;
   defs: Record<string, Define>;
+  datatypes: DatatypeLibraries;
+  // The namespace prefixes in scope for each element being validated
+  private scopes = new WeakMap<Element, Scope>();
+  // The name of the define that each pattern of the grammar is in
+  private defines = new WeakMap<Pattern, string>();
 
-  constructor(spec: RngAstRoot) {
+  constructor(spec: RngAstRoot, options: ValidatorOptions = {}) {
+    this.datatypes = options.datatypes ?? defaultDatatypeLibraries();
     // TODO: Fix this "as"
-    this.grammar = spec.children[0] as Grammar;
-    const [specStart, ...defs] = this.grammar.children;
-    if (specStart.type !== 'start')
+    this.grammar = prepareSpec(spec).children[0] as Grammar;
+    const [specStart, ...defs] = flattenGrammarContent(this.grammar.children);
+    if (specStart?.type !== 'start')
       throw new Error('Grammar should begin with start');
     this.specStart = specStart;
     for (const def of defs) {
@@ -195,10 +312,32 @@ export class RelaxNgValidator {
         throw new Error('Should not have multiple starts');
     }
     this.defs = {};
-    (defs as Define[]).forEach(this.addDef.bind(this));
+    for (const def of defs as Define[]) this.setDef(def);
   }
   addDef(def: Define) {
+    this.setDef(prepareSpec(def));
+  }
+  private setDef(def: Define) {
     this.defs[def.name] = def;
+    visit(def, (node) => {
+      if (node != def) this.defines.set(node as Pattern, def.name);
+    });
+  }
+
+  // A pattern made while matching the spec, which is in the same define
+  private derived<T extends Pattern>(spec: Pattern, pattern: T): T {
+    const define = this.defines.get(spec);
+    if (define != undefined) this.defines.set(pattern, define);
+    return pattern;
+  }
+  // A problem with matching the spec, in the define that the spec is in
+  private problem(
+    spec: Pattern,
+    code: RngValidationErrorCode,
+    reason: string,
+    node?: XastNode,
+  ): Problem {
+    return { code, reason, define: this.defines.get(spec), node };
   }
   // Validate a given xml node against the specification described in
   // A given Relax NG definition
@@ -207,30 +346,62 @@ export class RelaxNgValidator {
   // A response of true means this element is plausible but might have
   // some problems
   validateNode(target: XastNode, spec: Pattern): Applicable {
+    this.declareScopes(target, { xml: XML_NAMESPACE });
     const result = this.validateDetails(
       [[target as ElementContent], {}],
-      [spec],
+      [prepareSpec(spec)],
     );
     endValidationOnNode(target as Element, result);
     return result[0];
   }
 
-  private _getRef(name: string) {
-    if (!(name in this.defs)) {
-      throw new Error(`Referencing unknown definition: ${name}`);
+  // Records the namespace prefixes in scope for the node and its
+  // descendants, from the xmlns declarations on the elements
+  private declareScopes(node: XastNode, parentScope: Scope) {
+    let scope = parentScope;
+    if (node.type == 'element') {
+      scope = { ...parentScope };
+      for (const [key, value] of Object.entries(node.attributes)) {
+        if (!isNamespaceDeclaration(key) || typeof value != 'string') continue;
+        scope[key == 'xmlns' ? '' : key.slice('xmlns:'.length)] = value;
+      }
+      this.scopes.set(node, scope);
     }
-    return this.defs[name].children;
+    if ('children' in node) {
+      for (const child of node.children) this.declareScopes(child, scope);
+    }
+  }
+
+  // Resolves a prefixed name using the prefixes in scope at the element.
+  // Unprefixed attribute names are never in a namespace.
+  private resolveName(
+    el: Element,
+    qname: string,
+    isAttribute: boolean = false,
+  ): [string, string] {
+    const [prefix, local] = splitQName(qname);
+    if (isAttribute && prefix == '') return ['', local];
+    const scope = this.scopes.get(el) ?? { xml: XML_NAMESPACE };
+    return [scope[prefix] ?? '', local];
+  }
+
+  // The element's content, with attributes keyed by their expanded names.
+  // Namespace declarations are not attributes to be validated.
+  private elemCtx(el: Element): Context {
+    const attrs: Element['attributes'] = {};
+    for (const [key, value] of Object.entries(el.attributes)) {
+      if (isNamespaceDeclaration(key)) continue;
+      attrs[expandedName(...this.resolveName(el, key, true))] = value;
+    }
+    return [el.children, attrs];
   }
-  private _getRefSingle(name: string) {
+
+  private _getRef(name: string) {
     if (!(name in this.defs)) {
       throw new Error(`Referencing unknown definition: ${name}`);
     }
-    if (this.defs[name].children.length > 1) {
-      throw new Error('Unsure how to apply definition with multiple patterns');
-    }
-    return this.defs[name].children[0];
+    return this.defs[name].children;
   }
-
   // Helper that validates the children and attributes of a target node
   // against an array of specifications
   // Returns problems that pertain to the target itself
@@ -245,13 +416,26 @@ export class RelaxNgValidator {
     if (spec == undefined) return allGood(ctx);
 
     switch (spec.type) {
+      // An attribute's empty string value also counts as no content
       case 'empty':
         if (child == undefined) return allGood();
-        return invalid(ctx, expected.noChildren(children.length));
+        if (child.type === 'text' && child.value === '' && !restChildren.length)
+          return allGood();
+        return invalid(
+          ctx,
+          this.problem(
+            spec,
+            'unexpected-content',
+            expected.noChildren(children.length),
+          ),
+        );
       case 'text':
         if (child == undefined) {
           return concat2(
-            invalid(ctx, expected.text('nothing')),
+            invalid(
+              ctx,
+              this.problem(spec, 'expected-text', expected.text('nothing')),
+            ),
             this.validateDetails(ctx, restSpecs),
           );
         }
@@ -259,51 +443,39 @@ export class RelaxNgValidator {
           return this.validateDetails([restChildren, attrs], restSpecs);
         }
         return concat2(
-          invalid(ctx, expected.text(child.type)),
+          invalid(
+            ctx,
+            this.problem(spec, 'expected-text', expected.text(child.type)),
+          ),
           this.validateDetails(ctx, restSpecs),
         );
       case 'elementNamed':
-        if (child == undefined) {
-          return concat2(
-            invalid(ctx, expected.elem(spec.name, 'nothing')),
-            this.validateDetails(ctx, restSpecs),
-          );
-        }
-        if (child.type !== 'element') {
-          // Expected element but that's not what's here
-          // We try the remaining specs to get more problems
-          // May have to reconsider this and just break early
-          return concat2(
-            invalid(ctx, expected.elem(spec.name, child.type)),
-            this.validateDetails(ctx, restSpecs),
-          );
-        }
-        if (child.name !== spec.name) {
-          // Name mismatch
-          return concat2(
-            invalid(ctx, expected.elem(spec.name, child.name)),
-            this.validateDetails(ctx, restSpecs),
-          );
-        }
-        // We try to match the spec's children to the node's contents
-        // We note any problems in the node's data
-        // Then consider this an acceptable match and continue
-        endValidationOnNode(
-          child,
-          this.validateDetails(elemCtx(child), spec.children),
+        return this.validateElement(
+          ctx,
+          spec,
+          r.name(spec.name, spec.ns),
+          spec.children,
+          restSpecs,
         );
-        return this.validateDetails([restChildren, attrs], restSpecs);
+      case 'element': {
+        const [nameClass, ...patterns] = spec.children;
+        return this.validateElement(ctx, spec, nameClass, patterns, restSpecs);
+      }
       case 'attributeNamed':
-        if (spec.name in attrs) {
-          const { [spec.name]: attr, ...restAttrs } = attrs;
-          return concat2(
-            this.validateAttribute(spec.name, attr, spec.children[0]),
-            this.validateDetails([children, restAttrs], restSpecs),
-          );
-        }
-        return concat2(
-          invalid(ctx, expected.attr(spec.name)),
-          this.validateDetails(ctx, restSpecs),
+        return this.validateAttributeSpec(
+          ctx,
+          spec,
+          r.name(spec.name, spec.ns),
+          spec.children[0] ?? this.derived(spec, r.text()),
+          restSpecs,
+        );
+      case 'attribute':
+        return this.validateAttributeSpec(
+          ctx,
+          spec,
+          spec.children[0],
+          spec.children[1] ?? this.derived(spec, r.text()),
+          restSpecs,
         );
       case 'ref':
         return this.validateDetails(ctx, [
@@ -335,7 +507,12 @@ export class RelaxNgValidator {
               (ctx) => this.validateDetails(ctx, restSpecs),
             ),
         );
-        return fallback(...allPaths, () => invalid(ctx, expected.noMatch()));
+        return fallback(...allPaths, () =>
+          invalid(
+            ctx,
+            this.problem(spec, 'no-matching-choice', expected.noMatch()),
+          ),
+        );
       }
       // We have to choose between "using it and continuing"
       // and "not using it"
@@ -362,6 +539,49 @@ export class RelaxNgValidator {
         );
       case 'group':
         return this.validateDetails(ctx, [...spec.children, ...restSpecs]);
+      // Lists, data and values match the string of a single text child
+      case 'list':
+        return this.validateString(
+          ctx,
+          spec,
+          restSpecs,
+          (value) => this.matchesList(value, spec),
+          (value) => this.problem(spec, 'invalid-list', expected.list(value)),
+        );
+      case 'data':
+        return this.validateString(
+          ctx,
+          spec,
+          restSpecs,
+          (value) => this.matchesData(value, spec),
+          (value) =>
+            this.problem(
+              spec,
+              'invalid-data',
+              expected.data(spec.dataType, value),
+            ),
+        );
+      case 'value':
+        return this.validateString(
+          ctx,
+          spec,
+          restSpecs,
+          (value) => this.matchesValue(value, spec),
+          (value) =>
+            this.problem(
+              spec,
+              'invalid-value',
+              expected.value(spec.value, value),
+            ),
+        );
+      case 'notAllowed':
+        return concat2(
+          invalid(
+            ctx,
+            this.problem(spec, 'not-allowed', expected.notAllowed()),
+          ),
+          this.validateDetails(ctx, restSpecs),
+        );
       // A zeroOrMore etc within interleave does not need to have its matches occur
       // consecutively!! This will be hard
       case 'interleave':
@@ -369,46 +589,316 @@ export class RelaxNgValidator {
         throw new Error(`Unhandled validateDetails: ${spec.type}`);
     }
   }
+  // Matches the string of the next text child, which is taken to be
+  // the empty string when there are no children left
+  private validateString(
+    ctx: Context,
+    spec: Pattern,
+    restSpecs: Pattern[],
+    matches: (value: string) => boolean,
+    problem: (value: string) => Problem,
+  ): ValidationResult {
+    const [children, attrs] = ctx;
+    const [child, ...restChildren] = children;
+    if (child != undefined && child.type !== 'text') {
+      return concat2(
+        invalid(
+          ctx,
+          this.problem(spec, 'expected-text', expected.text(child.type), child),
+        ),
+        this.validateDetails(ctx, restSpecs),
+      );
+    }
+    const value = child == undefined ? '' : child.value;
+    const remainingCtx: Context =
+      child == undefined ? ctx : [restChildren, attrs];
+    if (matches(value)) {
+      return this.validateDetails(remainingCtx, restSpecs);
+    }
+    return concat2(
+      invalid(ctx, problem(value)),
+      this.validateDetails(remainingCtx, restSpecs),
+    );
+  }
+
+  // Matches the next child against an element with the given name class
+  // and content, then continues with the rest of the specs
+  private validateElement(
+    ctx: Context,
+    spec: Pattern,
+    nameClass: NameClass,
+    content: Pattern[],
+    restSpecs: Pattern[],
+  ): ValidationResult {
+    const [children, attrs] = ctx;
+    const [child, ...restChildren] = children;
+    const name = describeNameClass(nameClass);
+    if (child == undefined) {
+      return concat2(
+        invalid(
+          ctx,
+          this.problem(
+            spec,
+            'expected-element',
+            expected.elem(name, 'nothing'),
+          ),
+        ),
+        this.validateDetails(ctx, restSpecs),
+      );
+    }
+    if (child.type !== 'element') {
+      // Expected element but that's not what's here
+      // We try the remaining specs to get more problems
+      // May have to reconsider this and just break early
+      return concat2(
+        invalid(
+          ctx,
+          this.problem(
+            spec,
+            'expected-element',
+            expected.elem(name, child.type),
+            child,
+          ),
+        ),
+        this.validateDetails(ctx, restSpecs),
+      );
+    }
+    if (!matchesNameClass(nameClass, ...this.resolveName(child, child.name))) {
+      // Name mismatch
+      return concat2(
+        invalid(
+          ctx,
+          this.problem(
+            spec,
+            'expected-element',
+            expected.elem(name, child.name),
+            child,
+          ),
+        ),
+        this.validateDetails(ctx, restSpecs),
+      );
+    }
+    // We try to match the spec's children to the node's contents
+    // We note any problems in the node's data
+    // Then consider this an acceptable match and continue
+    endValidationOnNode(
+      child,
+      this.validateDetails(this.elemCtx(child), content),
+      this.defines.get(spec),
+    );
+    return this.validateDetails([restChildren, attrs], restSpecs);
+  }
+
+  // Matches an attribute with the given name class and value pattern,
+  // then continues with the rest of the specs
+  private validateAttributeSpec(
+    ctx: Context,
+    spec: Pattern,
+    nameClass: NameClass,
+    content: Pattern,
+    restSpecs: Pattern[],
+  ): ValidationResult {
+    const [children, attrs] = ctx;
+    const key = Object.keys(attrs).find((k) =>
+      matchesNameClass(nameClass, ...splitExpandedName(k)),
+    );
+    if (key != undefined) {
+      const { [key]: attr, ...restAttrs } = attrs;
+      return concat2(
+        this.validateAttribute(key, attr, content),
+        this.validateDetails([children, restAttrs], restSpecs),
+      );
+    }
+    return concat2(
+      invalid(
+        ctx,
+        this.problem(
+          spec,
+          'missing-attribute',
+          expected.attr(describeNameClass(nameClass)),
+        ),
+      ),
+      this.validateDetails(ctx, restSpecs),
+    );
+  }
+
+  // Matches the attribute's value against the content pattern, treating
+  // the value as the single text child of the attribute
   validateAttribute(
     attrName: string,
     attrValue: string | null | undefined,
     spec: Pattern,
   ): ValidationResult {
+    if (typeof attrValue != 'string')
+      return invalid(
+        [[], {}],
+        this.problem(
+          spec,
+          'invalid-attribute',
+          expected.attrText(attrName, typeof attrValue),
+        ),
+      );
+    const ctx: Context = [[{ type: 'text', value: attrValue }], {}];
+    const [ok, problems, remainingCtx] = this.validateDetails(ctx, [spec]);
+    // The problems of a failed match already account for the value
+    const leftover = ok ? unexpected(remainingCtx, this.defines.get(spec)) : [];
+    return [ok && leftover.length == 0, [...problems, ...leftover], [[], {}]];
+  }
+
+  // Splits the value on whitespace and checks that the tokens
+  // match the list's content
+  matchesList(value: string, spec: List): boolean {
+    const tokens = value.split(/\s+/).filter((t) => t != '');
+    const ends = this.matchTokens(tokens, spec.children, new Set([0]));
+    return ends.has(tokens.length);
+  }
+
+  // Matches a sequence of patterns against the tokens, starting from
+  // each of the given positions. Returns all positions where a match
+  // could end.
+  private matchTokens(
+    tokens: string[],
+    specs: Pattern[],
+    starts: Set<number>,
+  ): Set<number> {
+    let positions = starts;
+    for (const spec of specs) {
+      positions = union(
+        [...positions].map((pos) => this.matchToken(tokens, spec, pos)),
+      );
+    }
+    return positions;
+  }
+
+  private matchToken(
+    tokens: string[],
+    spec: Pattern,
+    pos: number,
+  ): Set<number> {
     switch (spec.type) {
+      case 'empty':
+        return new Set([pos]);
+      case 'value':
+        return pos < tokens.length && this.matchesValue(tokens[pos], spec)
+          ? new Set([pos + 1])
+          : new Set();
+      case 'data':
+        return pos < tokens.length && this.matchesData(tokens[pos], spec)
+          ? new Set([pos + 1])
+          : new Set();
+      // Text matches any number of tokens
+      case 'text':
+        return new Set(
+          Array.from({ length: tokens.length - pos + 1 }, (_, i) => pos + i),
+        );
       case 'ref':
-        return this.validateAttribute(
-          attrName,
-          attrValue,
-          expectAttrContent(this._getRefSingle(spec.name)),
+        return this.matchTokens(
+          tokens,
+          this._getRef(spec.name),
+          new Set([pos]),
         );
-      case 'text':
-        if (typeof attrValue == 'string') return allGood();
-        return invalid([[], {}], expected.attrText(attrName, typeof attrValue));
+      case 'group':
+        return this.matchTokens(tokens, spec.children, new Set([pos]));
+      case 'choice':
+        return union(
+          spec.children.map((ch) => this.matchToken(tokens, ch, pos)),
+        );
+      case 'optional':
+        return this.matchTokens(tokens, spec.children, new Set([pos])).add(pos);
+      // Repeat the match from any newly reached positions
+      case 'oneOrMore':
+      case 'zeroOrMore': {
+        const reached = new Set<number>();
+        if (spec.type == 'zeroOrMore') reached.add(pos);
+        let frontier = new Set([pos]);
+        while (frontier.size > 0) {
+          const ends = this.matchTokens(tokens, spec.children, frontier);
+          frontier = new Set([...ends].filter((p) => !reached.has(p)));
+          frontier.forEach((p) => reached.add(p));
+        }
+        return reached;
+      }
       default:
-        throw new Error(`Unhandled validateAttribute: ${spec.type}`);
+        return new Set();
     }
   }
 
+  // Compares the strings as values of the datatype of the value pattern
+  matchesValue(value: string, spec: Value): boolean {
+    return this.getDatatype(spec).equals(value, spec.value);
+  }
+
+  // Checks the value against the datatype, its params and except
+  matchesData(value: string, spec: Data): boolean {
+    if (!this.getDatatype(spec).allows(value, spec.params)) return false;
+    const except = spec.children[0];
+    return except == undefined || !this.matchesString(value, except.children);
+  }
+
+  // Whether the whole string matches one of the patterns. These are the
+  // patterns allowed in an except, so match strings rather than elements.
+  private matchesString(value: string, specs: Pattern[]): boolean {
+    return specs.some((spec) => {
+      switch (spec.type) {
+        case 'value':
+          return this.matchesValue(value, spec);
+        case 'data':
+          return this.matchesData(value, spec);
+        case 'list':
+          return this.matchesList(value, spec);
+        case 'choice':
+          return this.matchesString(value, spec.children);
+        case 'ref':
+          return this.matchesString(value, this._getRef(spec.name));
+        default:
+          throw new Error(`Cannot use in except: ${spec.type}`);
+      }
+    });
+  }
+
+  // Values without a type are tokens of the built-in library (4.4)
+  private getDatatype(spec: Data | Value): Datatype {
+    const uri = spec.dataType == undefined ? '' : (spec.datatypeLibrary ?? '');
+    const dataType = spec.dataType ?? 'token';
+    const library = this.datatypes[uri];
+    if (library == undefined)
+      throw new Error(`Unknown datatype library: ${uri}`);
+    if (!Object.prototype.hasOwnProperty.call(library, dataType))
+      throw new Error(`Unknown datatype ${dataType} in library ${uri}`);
+    return library[dataType];
+  }
+
+  // Validates the document element against the start of the grammar,
+  // with the same side-effect as validateNode
   validate(target: XastNode): Applicable {
+    this.declareScopes(target, { xml: XML_NAMESPACE });
     // TODO: Not working well when 'root' is provided
-    const [ok, problems] = this.validateDetails(
+    const result = this.validateDetails(
       [[target as ElementContent], {}],
       this.specStart.children,
     );
-    return ok;
+    endValidationOnNode(target as Element, result);
+    return result[0];
   }
 }
 
-// TODO: Probably redundant long-term
-function expectAttrContent(content: Pattern): Pattern {
-  switch (content.type) {
-    case 'text':
-    case 'value':
-    case 'data':
-    case 'choice':
-    case 'ref':
-      return content;
-    default:
-      throw new Error(`Cannot use in attribute context: ${content.type}`);
-  }
+function union(sets: Set<number>[]): Set<number> {
+  return new Set(sets.flatMap((set) => [...set]));
+}
+
+// Works on a copy of the spec, with the namespaces of names resolved and
+// the datatype library of each data pattern filled in
+function prepareSpec<T extends RngAstRoot | Define | Pattern>(spec: T): T {
+  const prepared = resolveNamespaces(structuredClone(spec));
+  propagateDatatypeLibraries(prepared);
+  return prepared;
+}
+
+// Replaces any div in the grammar content with its children
+function flattenGrammarContent(
+  content: GrammarContent[],
+): Exclude<GrammarContent, Div>[] {
+  return content.flatMap((ch) =>
+    ch.type == 'div' ? flattenGrammarContent(ch.children) : [ch],
+  );
 }
@@ -1,21 +1,22 @@
 // Types for the ast for an RelaxNG specification
 import { Literal as UnistLiteral, Node, Parent as UnistParent } from 'unist';
+import { Element as XastElement } from 'xast';
 
 export { UnistLiteral as Literal, RngRoot as Root };
 
-export type DataType = 'integer' | 'double' | 'string';
 export type CombineMethod = 'choice' | 'interleave';
 
 export interface GrammarContentMap {
   start: Start;
   define: Define;
-  // Missing: <div> grammarContent* </div>
-  // Missing: <include href="anyURI"> includeContent* </include>
-  // includeContent  ::=  start
-  //    | define
-  //    | <div> includeContent* </div>
+  div: Div;
+  include: Include;
 }
 
+// The content allowed within an <include>. Any divs in it
+// should only contain IncludeContent.
+export type IncludeContent = Start | Define | Div;
+
 // These are the elements that represent patterns that may be used in a match
 export interface PatternMap {
   elementNamed: ElementNamed;
@@ -28,7 +29,7 @@ export interface PatternMap {
   optional: Optional;
   zeroOrMore: ZeroOrMore;
   oneOrMore: OneOrMore;
-  // Missing: list
+  list: List;
   mixed: Mixed;
   ref: Ref;
   parentRef: ParentRef;
@@ -37,19 +38,20 @@ export interface PatternMap {
   value: Value;
   data: Data;
   notAllowed: NotAllowed;
-  // Missing: externalRef
+  externalRef: ExternalRef;
   grammar: Grammar;
 }
 
-// TODO: Add nsName
 export interface NameClassMap {
   name: Name;
   anyName: AnyName;
+  nsName: NsName;
   nameChoice: NameChoice;
 }
 
-// The first element in the grammar is expected to be a Start
-// And subsequent elements will be Definition.
+// A grammar contains starts and definitions, possibly grouped in divs.
+// After simplification the first element will be a Start and
+// subsequent elements will be Definition.
 export interface Grammar extends Parent {
   type: 'grammar';
   children: GrammarContent[];
@@ -59,9 +61,38 @@ export type GrammarContent = GrammarContentMap[keyof GrammarContentMap];
 export type Pattern = PatternMap[keyof PatternMap];
 export type NameClass = NameClassMap[keyof NameClassMap];
 
-export type Content = GrammarContent | Pattern | NameClass;
+export type Content = GrammarContent | Pattern | NameClass | Except;
+
+// The url of the resource that a node was parsed from, when known,
+// and the annotations on the element it was parsed from
+declare module 'unist' {
+  interface Data {
+    url?: string;
+    annotations?: Annotations;
+  }
+}
+
+// Annotations are the attributes and child elements of a Relax NG element
+// that are in other namespaces. The text of a:documentation elements, from
+// the DTD compatibility annotations, is kept as documentation.
+export interface Annotations {
+  documentation?: string;
+  // Qualified attribute names to their values
+  attributes?: Record<string, string>;
+  elements?: XastElement[];
+}
+
+// Any element of the full syntax may carry ns and datatypeLibrary
+// attributes, which its descendants inherit during simplification
+// (spec 4.3, 4.9). It may also declare namespace prefixes, used to
+// resolve prefixed names (spec 4.10).
+export interface RngNode extends Node {
+  ns?: string;
+  datatypeLibrary?: string;
+  namespaces?: Record<string, string>;
+}
 
-export interface Parent extends UnistParent {
+export interface Parent extends UnistParent, RngNode {
   children: Content[];
 }
 
@@ -89,13 +120,13 @@ export interface Element extends Parent {
   children: [NameClass, ...Array<Pattern>];
 }
 
-export interface AttributeNamed extends UnistParent {
+export interface AttributeNamed extends UnistParent, RngNode {
   type: 'attributeNamed';
   name: string;
   children: [] | [Pattern];
 }
 
-export interface Attribute extends UnistParent {
+export interface Attribute extends UnistParent, RngNode {
   type: 'attribute';
   children: [NameClass] | [NameClass, Pattern];
 }
@@ -124,46 +155,76 @@ export interface OneOrMore extends PatternParent {
   type: 'oneOrMore';
 }
 
+// List matches its content against the whitespace-separated
+// tokens of a text value
+export interface List extends PatternParent {
+  type: 'list';
+}
+
 export interface Mixed extends PatternParent {
   type: 'mixed';
 }
 
-export interface Ref extends Node {
+export interface Ref extends RngNode {
   type: 'ref';
   name: string;
 }
 
-export interface ParentRef extends Node {
+export interface ParentRef extends RngNode {
   type: 'parentRef';
   name: string;
 }
 
-export interface Empty extends Node {
+export interface Empty extends RngNode {
   type: 'empty';
 }
 
-export interface Text extends Node {
+export interface Text extends RngNode {
   type: 'text';
 }
 
-export interface Value extends Node {
+// A value is of the datatype named dataType in its datatypeLibrary, the
+// token type of the built-in library when it has no dataType
+export interface Value extends RngNode {
   type: 'value';
   value: string;
+  dataType?: string;
 }
 
-export interface Data extends Node {
+// The datatype is looked up by its local name, dataType, in the datatype
+// library identified by the datatypeLibrary URI. The empty URI stands for
+// the built-in library of string and token.
+export interface Data extends Parent {
   type: 'data';
-  dataType: DataType;
-  // Needs more to match spec:
-  // <data type="NCName"> param* [exceptPattern] </data>
-  // param ::=  <param name="NCName"> string </param>
-  params?: Record<string, string>; // Currently ignored
+  dataType: string;
+  params: Param[];
+  children: [] | [Except];
+}
+
+export interface Param extends RngNode {
+  type: 'param';
+  name: string;
+  value: string;
 }
 
-export interface NotAllowed extends Node {
+// The values of the datatype that are excluded from a data pattern
+export interface Except extends PatternParent {
+  type: 'except';
+}
+
+export interface NotAllowed extends RngNode {
   type: 'notAllowed';
 }
 
+// ExternalRef is replaced by the pattern at href during simplification
+// (spec 4.7). The pattern is loaded by the resolver when parsing, and
+// is not a child of the node.
+export interface ExternalRef extends RngNode {
+  type: 'externalRef';
+  href: string;
+  pattern?: Pattern;
+}
+
 // GRAMMAR CONTENT
 // Start contains a single Pattern
 export interface Start extends Parent {
@@ -172,24 +233,51 @@ export interface Start extends Parent {
   children: [Pattern];
 }
 
-export interface Define extends Node {
+export interface Define extends RngNode {
   type: 'define';
   name: string;
   combine?: CombineMethod;
   children: Pattern[];
 }
 
+// Div groups grammar content. It has no semantics and is
+// replaced by its children during simplification (spec 4.11)
+export interface Div extends Parent {
+  type: 'div';
+  children: GrammarContent[];
+}
+
+// Include merges the grammar at href into the current grammar.
+// Its children override any start or defines of the same name
+// in the included grammar (spec 4.7). The included grammar is
+// loaded by the resolver when parsing, and is not part of
+// the include's children.
+export interface Include extends Parent {
+  type: 'include';
+  href: string;
+  children: IncludeContent[];
+  grammar?: Grammar;
+}
+
 /// NAME CLASSES
-export interface Name extends Node {
+// The name may be a prefixed QName until simplification, which
+// resolves the prefix and records the namespace URI in ns
+export interface Name extends RngNode {
   type: 'name';
   name: string;
 }
 
-export interface AnyName extends Node {
+export interface AnyName extends RngNode {
   type: 'anyName';
   except?: ExceptNameClass;
 }
 
+// Matches any name in the namespace ns
+export interface NsName extends RngNode {
+  type: 'nsName';
+  except?: ExceptNameClass;
+}
+
 export interface NameChoice extends NameClassParent {
   type: 'nameChoice';
 }
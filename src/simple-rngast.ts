@@ -5,9 +5,9 @@ import * as R from './rngast';
 
 export interface NonEmptyPatternMap {
   text: R.Text;
-  data: R.Data;
-  value: R.Value;
-  // Missing: list
+  data: Data;
+  value: Value;
+  list: List;
   attribute: Attribute;
   ref: R.Ref;
   oneOrMore: OneOrMore;
@@ -18,8 +18,8 @@ export interface NonEmptyPatternMap {
 
 export interface NameClassMap {
   anyName: AnyName;
-  name: R.Name;
-  // missing: nsName
+  name: Name;
+  nsName: NsName;
   nameChoice: NameChoice;
 }
 
@@ -54,6 +54,24 @@ export type Attribute = R.Attribute & {
   children: [NameClass, Pattern];
 };
 
+export type Value = R.Value & {
+  dataType: string;
+  datatypeLibrary: string;
+};
+
+export type Data = R.Data & {
+  datatypeLibrary: string;
+  children: [] | [Except];
+};
+
+export type Except = R.Except & {
+  children: [Pattern];
+};
+
+export type List = R.List & {
+  children: [Pattern];
+};
+
 export type OneOrMore = R.OneOrMore & {
   children: [NonEmptyPattern];
 };
@@ -70,10 +88,19 @@ export type Interleave = R.Interleave & {
   children: [NonEmptyPattern, NonEmptyPattern];
 };
 
+export type Name = R.Name & {
+  ns: string;
+};
+
 export type AnyName = R.AnyName & {
   except?: ExceptNameClass;
 };
 
+export type NsName = R.NsName & {
+  ns: string;
+  except?: ExceptNameClass;
+};
+
 export type NameChoice = R.NameChoice & {
   children: [NameClass, NameClass];
 };
@@ -83,115 +110,281 @@ export type ExceptNameClass = R.ExceptNameClass & {
 };
 
 // Validators
-export function isRoot(tree: R.RngRoot): tree is Root {
-  return tree.children.length == 1 && isGrammar(tree.children[0]);
-}
 
-function isGrammar(node: R.Pattern): node is Grammar {
-  if (node.type != 'grammar') return false;
-  if (node.children.length == 0) return false;
-  const [start, ...rest] = node.children;
-  return isStart(start) && rest.every((ch) => isDefine(ch));
+// A way in which a tree is not in the simplified form: the offending node,
+// the path of nodes to it from the root, the shape the node should have
+// and the shape that it has
+export interface SimplifiedViolation {
+  path: string[];
+  node: ShapedNode;
+  expected: string;
+  actual: string;
 }
 
-function isStart(node: R.GrammarContent): node is Start {
-  return (
-    node.type == 'start' && node.children.length == 1 && isTop(node.children[0])
-  );
+export function isRoot(tree: R.RngRoot): tree is Root {
+  return checkSimplified(tree).length == 0;
 }
 
-function isTop(node: R.Pattern): boolean {
-  return isNotAllowed(node) || isPattern(node);
+// Returns every violation of the simplified form in the tree
+export function checkSimplified(tree: R.RngRoot): SimplifiedViolation[] {
+  const checker = new SimplifiedChecker();
+  checker.checkRoot(tree);
+  return checker.violations;
 }
 
-function isNotAllowed(node: R.Pattern): node is R.NotAllowed {
-  return node.type == 'notAllowed';
+// For messages: where the violation is, and what is wrong
+export function describeViolation(violation: SimplifiedViolation): string {
+  const { path, expected, actual } = violation;
+  return `${path.join(' > ')}: ${expected}, but ${actual}`;
 }
 
-function isPattern(node: R.Pattern): node is Pattern {
-  return isEmpty(node) || isNonEmptyPattern(node);
-}
-function isEmpty(node: R.Pattern): node is R.Empty {
-  return node.type == 'empty';
-}
+type ShapedNode = R.RngRoot | R.Content | R.ExceptNameClass;
+
+const PATTERN_TYPES = [
+  'empty',
+  'text',
+  'value',
+  'data',
+  'list',
+  'attribute',
+  'ref',
+  'oneOrMore',
+  'choice',
+  'group',
+  'interleave',
+];
+const NAME_CLASS_TYPES = ['name', 'anyName', 'nsName', 'nameChoice'];
+
+class SimplifiedChecker {
+  violations: SimplifiedViolation[] = [];
+
+  private report(
+    node: ShapedNode,
+    path: string[],
+    expected: string,
+    actual: string = describeShape(node),
+  ) {
+    this.violations.push({ path, node, expected, actual });
+  }
 
-function isNonEmptyPattern(node: R.Pattern): node is NonEmptyPattern {
-  switch (node.type) {
-    case 'text':
-    case 'data':
-    case 'value':
-    case 'ref':
-      return true;
-    case 'attribute':
-      return isAttribute(node);
-    case 'oneOrMore':
-      return isOneOrMore(node);
-    case 'choice':
-      return isChoice(node);
-    case 'group':
-      return isGroup(node);
-    case 'interleave':
-      return isInterleave(node);
-    default:
-      return false;
+  checkRoot(tree: R.RngRoot) {
+    const path = ['root'];
+    const [grammar] = tree.children;
+    if (tree.children.length != 1 || grammar.type != 'grammar') {
+      this.report(tree, path, 'root must have exactly one grammar');
+      return;
+    }
+    this.checkGrammar(grammar, [...path, 'grammar']);
   }
-}
 
-function isAttribute(node: R.Attribute): node is Attribute {
-  return (
-    node.children.length == 2 &&
-    isNameClass(node.children[0]) &&
-    isPattern(node.children[1])
-  );
-}
+  private checkGrammar(grammar: R.Grammar, path: string[]) {
+    const [start, ...rest] = grammar.children;
+    if (start?.type != 'start' || rest.some((ch) => ch.type != 'define'))
+      this.report(
+        grammar,
+        path,
+        'grammar must have a start followed by defines',
+      );
+    for (const child of grammar.children) {
+      if (child.type == 'start') this.checkStart(child, [...path, 'start']);
+      if (child.type == 'define')
+        this.checkDefine(child, [...path, `define ${child.name}`]);
+    }
+  }
 
-function isOneOrMore(node: R.OneOrMore): node is OneOrMore {
-  return node.children.length == 1 && isNonEmptyPattern(node.children[0]);
-}
+  private checkStart(start: R.Start, path: string[]) {
+    if (start.children.length != 1)
+      this.report(start, path, 'start must have exactly one pattern');
+    this.checkPatterns(start.children, path, true);
+  }
 
-function isChoice(node: R.Choice): node is Choice {
-  return (
-    node.children.length == 2 &&
-    isPattern(node.children[0]) &&
-    isNonEmptyPattern(node.children[1])
-  );
-}
+  private checkDefine(define: R.Define, path: string[]) {
+    const [element] = define.children;
+    if (define.children.length != 1 || element.type != 'element') {
+      this.report(define, path, 'define must have exactly one element');
+      return;
+    }
+    const [nameClass, ...patterns] = element.children;
+    const elementPath = [...path, 'element'];
+    if (patterns.length != 1)
+      this.report(
+        element,
+        elementPath,
+        'element must have a name class and exactly one pattern',
+      );
+    this.checkNameClass(nameClass, elementPath);
+    this.checkPatterns(patterns, elementPath, true);
+  }
 
-function isGroup(node: R.Group): node is Group {
-  return (
-    node.children.length == 2 &&
-    isNonEmptyPattern(node.children[0]) &&
-    isNonEmptyPattern(node.children[1])
-  );
-}
+  // Checks each pattern, and its descendants. Only the patterns of start
+  // and element can be notAllowed.
+  private checkPatterns(
+    patterns: R.Pattern[],
+    path: string[],
+    top: boolean = false,
+  ) {
+    for (const pattern of patterns) {
+      const patternPath = [...path, describeNode(pattern)];
+      if (pattern.type == 'notAllowed') {
+        if (!top)
+          this.report(
+            pattern,
+            patternPath,
+            'notAllowed must be the pattern of start or element',
+            `notAllowed is in ${path[path.length - 1]}`,
+          );
+      } else if (!PATTERN_TYPES.includes(pattern.type)) {
+        this.report(
+          pattern,
+          patternPath,
+          'a pattern of the simplified syntax',
+          `found ${pattern.type}`,
+        );
+      } else {
+        this.checkPattern(pattern, patternPath);
+      }
+    }
+  }
 
-function isInterleave(node: R.Interleave): node is Interleave {
-  return (
-    node.children.length == 2 &&
-    isNonEmptyPattern(node.children[0]) &&
-    isNonEmptyPattern(node.children[1])
-  );
-}
+  private checkPattern(pattern: R.Pattern, path: string[]) {
+    const nonEmpty = (ps: R.Pattern[]) => ps.every((p) => p.type != 'empty');
+    switch (pattern.type) {
+      case 'value':
+        if (
+          pattern.dataType == undefined ||
+          pattern.datatypeLibrary == undefined
+        )
+          this.report(
+            pattern,
+            path,
+            'value must have a type and a datatypeLibrary',
+            'value has none',
+          );
+        break;
+      case 'data': {
+        if (pattern.datatypeLibrary == undefined)
+          this.report(
+            pattern,
+            path,
+            'data must have a datatypeLibrary',
+            'data has none',
+          );
+        const [except] = pattern.children;
+        if (except == undefined) break;
+        const exceptPath = [...path, 'except'];
+        if (except.children.length != 1)
+          this.report(
+            except,
+            exceptPath,
+            'except must have exactly one pattern',
+          );
+        this.checkPatterns(except.children, exceptPath);
+        break;
+      }
+      case 'attribute': {
+        const [nameClass, ...patterns] = pattern.children;
+        if (patterns.length != 1)
+          this.report(
+            pattern,
+            path,
+            'attribute must have a name class and exactly one pattern',
+          );
+        this.checkNameClass(nameClass, path);
+        this.checkPatterns(patterns, path);
+        break;
+      }
+      case 'list':
+        if (pattern.children.length != 1)
+          this.report(pattern, path, 'list must have exactly one pattern');
+        this.checkPatterns(pattern.children, path);
+        break;
+      case 'oneOrMore':
+        if (pattern.children.length != 1 || !nonEmpty(pattern.children))
+          this.report(
+            pattern,
+            path,
+            'oneOrMore must have exactly one non-empty pattern',
+          );
+        this.checkPatterns(pattern.children, path);
+        break;
+      case 'choice':
+        if (
+          pattern.children.length != 2 ||
+          !nonEmpty(pattern.children.slice(1))
+        )
+          this.report(
+            pattern,
+            path,
+            'choice must have exactly two patterns, the second non-empty',
+          );
+        this.checkPatterns(pattern.children, path);
+        break;
+      case 'group':
+      case 'interleave':
+        if (pattern.children.length != 2 || !nonEmpty(pattern.children))
+          this.report(
+            pattern,
+            path,
+            `${pattern.type} must have exactly two non-empty patterns`,
+          );
+        this.checkPatterns(pattern.children, path);
+        break;
+    }
+  }
 
-function isNameClass(node: R.NameClass): node is NameClass {
-  return true;
-  // TODO: nameChoice case is not currently handled by the simplifier
-  // so we need to revisit this.
+  // Names have a resolved ns, and choices and excepts have one name class
+  // per child
+  private checkNameClass(nameClass: R.Content | undefined, path: string[]) {
+    if (nameClass == undefined) return;
+    const nameClassPath = [...path, describeNode(nameClass)];
+    if (!NAME_CLASS_TYPES.includes(nameClass.type)) {
+      this.report(
+        nameClass,
+        nameClassPath,
+        'a name class',
+        `found ${nameClass.type}`,
+      );
+      return;
+    }
+    const nc = nameClass as R.NameClass;
+    if ((nc.type == 'name' || nc.type == 'nsName') && nc.ns == undefined)
+      this.report(
+        nc,
+        nameClassPath,
+        `${nc.type} must have an ns`,
+        'it has none',
+      );
+    if (nc.type == 'nameChoice') {
+      if (nc.children.length != 2)
+        this.report(
+          nc,
+          nameClassPath,
+          'nameChoice must have exactly two name classes',
+        );
+      nc.children.forEach((ch) => this.checkNameClass(ch, nameClassPath));
+    }
+    if ((nc.type == 'anyName' || nc.type == 'nsName') && nc.except) {
+      const exceptPath = [...nameClassPath, 'except'];
+      if (nc.except.children.length != 1)
+        this.report(
+          nc.except,
+          exceptPath,
+          'except must have exactly one name class',
+        );
+      nc.except.children.forEach((ch) => this.checkNameClass(ch, exceptPath));
+    }
+  }
 }
 
-function isDefine(node: R.GrammarContent): node is Define {
-  return (
-    node.type == 'define' &&
-    node.children.length == 1 &&
-    isElement(node.children[0])
-  );
+function describeNode(node: R.Content): string {
+  if (node.type == 'ref' || node.type == 'define')
+    return `${node.type} ${node.name}`;
+  return node.type;
 }
 
-function isElement(node: R.Pattern): node is Element {
-  return (
-    node.type == 'element' &&
-    node.children.length == 2 &&
-    isNameClass(node.children[0]) &&
-    isTop(node.children[1])
-  );
+function describeShape(node: ShapedNode): string {
+  if (!('children' in node) || node.children.length == 0)
+    return `${node.type} has no children`;
+  const types = node.children.map((ch) => ch.type);
+  return `${node.type} has children ${types.join(', ')}`;
 }
@@ -0,0 +1,161 @@
+// Plugins for using rngast in unified processors. Problems are reported
+// as messages on the processed file, with the code as the rule id.
+
+import { Plugin } from 'unified';
+import { Node } from 'unist';
+import { visit } from 'unist-util-visit';
+import { VFile } from 'vfile';
+import { Options, VFileMessage } from 'vfile-message';
+import { Root as XastRoot } from 'xast';
+import * as R from './rngast';
+import * as S from './simple-rngast';
+import { parseRelaxNg } from './xast-to-rngast';
+import { parseRelaxNgCompact } from './rnc-to-rngast';
+import { ResourceResolver } from './resolver';
+import { RngParseError, RngValidationError } from './errors';
+import { simplifyRngAst, SimplifyOptions } from './rngast-simplify';
+import { checkRestrictions } from './rngast-restrictions';
+import { toRnc } from './rngast-to-rnc';
+import { toRngXml } from './rngast-to-xast';
+import {
+  collectProblems,
+  RelaxNgValidator,
+  ValidatorOptions,
+} from './rngast-validate';
+
+// The XML syntax, or the compact syntax. Defaults to the compact syntax
+// for .rnc files, and to the XML syntax otherwise.
+export type RngSyntax = 'xml' | 'compact';
+
+export interface RngParseOptions {
+  syntax?: RngSyntax;
+  // Loads the included and referenced grammars, relative to the file path
+  resolver?: ResourceResolver;
+}
+
+// Parses grammars in either syntax. Problems are reported on the file,
+// and parsing continues with a best-effort tree.
+export const rngParse: Plugin<[RngParseOptions?], string, R.RngRoot> =
+  function (options = {}) {
+    this.parser = (document, file) => {
+      const messages: RngParseError[] = [];
+      const parse =
+        syntaxOf(file, options.syntax) == 'compact'
+          ? parseRelaxNgCompact
+          : parseRelaxNg;
+      const tree = parse(document, {
+        resolver: options.resolver,
+        url: file.path,
+        messages,
+      });
+      messages.forEach((error) => report(file, error));
+      return tree;
+    };
+  };
+
+// Simplifies the grammar. Every violation of the restrictions on the
+// simplified grammar is reported, unless restrictions is false. Other
+// problems stop the processing.
+export const rngSimplify: Plugin<[SimplifyOptions?], R.RngRoot, S.Root> =
+  function (options = {}) {
+    return (tree, file) => {
+      let simplified: S.Root;
+      try {
+        simplified = simplifyRngAst(tree, { ...options, restrictions: false });
+      } catch (e) {
+        if (!(e instanceof Error)) throw e;
+        return file.fail(e.message, messageOptions(e));
+      }
+      if (options.restrictions ?? true)
+        checkRestrictions(simplified).forEach((error) => report(file, error));
+      return simplified;
+    };
+  };
+
+export interface RngStringifyOptions {
+  syntax?: RngSyntax;
+}
+
+// Serializes grammars, simplified or not, in either syntax
+export const rngStringify: Plugin<
+  [RngStringifyOptions?],
+  R.RngRoot | S.Root,
+  string
+> = function (options = {}) {
+  this.compiler = (tree, file) => {
+    if (!isGrammarRoot(tree))
+      throw new Error(`Expected a grammar to stringify, not ${tree.type}`);
+    return syntaxOf(file, options.syntax) == 'compact'
+      ? toRnc(tree)
+      : toRngXml(tree);
+  };
+};
+
+export interface RngValidateOptions extends ValidatorOptions {
+  // The grammar that documents must match
+  grammar: R.RngRoot;
+}
+
+// Validates xast documents against the grammar, reporting each problem on
+// the file at the node that it is about, with the define that failed.
+// Grammars or documents that the validator cannot handle stop the
+// processing.
+export const rngValidate: Plugin<[RngValidateOptions], XastRoot> = function (
+  options,
+) {
+  // Created on first use, so that problems with the grammar are reported
+  // on a file
+  let validator: RelaxNgValidator | undefined;
+  return (tree, file) => {
+    const el = tree.children.find((ch) => ch.type == 'element');
+    if (el == undefined) {
+      const reason = 'Expected a document element';
+      report(
+        file,
+        new RngValidationError('missing-document-element', reason, tree),
+      );
+      return;
+    }
+    // Problems from earlier runs on the same tree would be reported again
+    visit(el, (node) => {
+      if (node.data) delete node.data.validation;
+    });
+    try {
+      validator ??= new RelaxNgValidator(options.grammar, options);
+      validator.validate(el);
+    } catch (e) {
+      if (!(e instanceof Error)) throw e;
+      return file.fail(e.message, messageOptions(e));
+    }
+    for (const [, problem] of collectProblems(el)) report(file, problem);
+  };
+};
+
+// Grammars, simplified or not, have a single pattern in a root
+function isGrammarRoot(tree: Node): tree is R.RngRoot | S.Root {
+  return (
+    tree.type == 'root' &&
+    'children' in tree &&
+    Array.isArray(tree.children) &&
+    tree.children.length == 1
+  );
+}
+
+function syntaxOf(file: VFile, syntax?: RngSyntax): RngSyntax {
+  return syntax ?? (file.extname == '.rnc' ? 'compact' : 'xml');
+}
+
+// Reports the error on the file, keeping its rule id, severity and note
+function report(file: VFile, error: VFileMessage) {
+  const message = file.message(error.reason, messageOptions(error));
+  message.fatal = error.fatal;
+  message.note = error.note;
+}
+
+// Messages for errors that are vfile messages keep their place and rule
+function messageOptions(error: Error): Options {
+  if (!(error instanceof VFileMessage))
+    return { cause: error, source: 'rngast' };
+  const { place, ruleId, source } = error;
+  return { place, ruleId, source, cause: error };
+}
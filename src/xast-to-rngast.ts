@@ -1,21 +1,84 @@
 import { visit } from 'unist-util-visit';
-import { Pattern, RngRoot as RelaxNgRoot } from './rngast';
+import {
+  Annotations,
+  CombineMethod,
+  Except,
+  NameClass,
+  Grammar,
+  GrammarContent,
+  IncludeContent,
+  Param,
+  Pattern,
+  RngNode,
+  RngRoot as RelaxNgRoot,
+} from './rngast';
 import * as b from './relaxng-builder';
 import { Root as XastRoot, XastNode, Element, ElementContent } from 'xast';
 import { fromXml } from 'xast-util-from-xml';
+import { Resource, ResourceResolver } from './resolver';
+import { RngParseError, RngParseErrorCode } from './errors';
+import { VFileMessage } from 'vfile-message';
 
 // HELPERS
-function ensureAttr(el: Element, key: string, message: string): string {
-  if (typeof el.attributes[key] !== 'string') throw new Error(message);
-  return el.attributes[key];
+function ensureAttr(
+  el: Element,
+  key: string,
+  message: string,
+  ctx: ParseContext,
+): string {
+  const value = el.attributes[key];
+  if (typeof value == 'string') return value;
+  report(ctx, parseError(ctx, 'missing-attribute', message, el));
+  return '';
 }
 
-function ensureAtMostOneChild(el: Element, message: string) {
+function ensureAtMostOneChild(el: Element, message: string, ctx: ParseContext) {
   if (el.children.length === 0) return undefined;
-  if (el.children.length > 1) throw new Error(message);
+  if (el.children.length > 1)
+    report(ctx, parseError(ctx, 'invalid-children', message, el));
   return el.children[0];
 }
 
+function parseError(
+  ctx: ParseContext,
+  code: RngParseErrorCode,
+  message: string,
+  node?: XastNode,
+): RngParseError {
+  return node?.type == 'element'
+    ? new RngParseError(code, message, { element: node, url: ctx.url })
+    : new RngParseError(code, message, { place: node?.position, url: ctx.url });
+}
+
+// Throws the error, or records it when recovering so that parsing
+// can continue
+function report(ctx: ParseContext, error: RngParseError) {
+  if (ctx.messages == undefined) throw error;
+  ctx.messages.push(error);
+}
+
+// Runs the conversion. When recovering, an error skips just the node
+// being converted, so the result is empty.
+function recover<T>(ctx: ParseContext, convert: () => T): T[] {
+  try {
+    return [convert()];
+  } catch (e) {
+    if (ctx.messages == undefined || !(e instanceof RngParseError)) throw e;
+    ctx.messages.push(e);
+    return [];
+  }
+}
+
+function convertPatterns(
+  children: ElementContent[],
+  ctx: ParseContext,
+): Pattern[] {
+  return children.flatMap((ch) =>
+    recover(ctx, () => convertPatternNode(ch, ctx)),
+  );
+}
+
+// Whitespace is only significant in value and param elements (4.2)
 export function removeWhiteSpaceNodes(tree: XastRoot) {
   const isValid = (ch: ElementContent) =>
     ch.type !== 'text' || ch.value.trim() != '';
@@ -24,140 +87,656 @@ export function removeWhiteSpaceNodes(tree: XastRoot) {
       node.children = node.children.filter(isValid);
     }
   };
-  visit(tree, (n: XastNode) => n.type != 'text', filterChildren);
+  const keepsWhiteSpace = (n: XastNode) =>
+    n.type == 'element' &&
+    ['value', 'param'].includes(localName((n as Element).name));
+  visit(
+    tree,
+    (n: XastNode) => n.type != 'text' && !keepsWhiteSpace(n),
+    filterChildren,
+  );
 }
 
-export function removeDocumentationNodes(tree: XastRoot) {
+export const RELAXNG_NAMESPACE = 'http://relaxng.org/ns/structure/1.0';
+
+export const ANNOTATIONS_NAMESPACE =
+  'http://relaxng.org/ns/compatibility/annotations/1.0';
+
+// Moves the annotations of each element to the element's data: its
+// attributes with a namespace prefix, and its child elements from another
+// namespace than Relax NG's (4.1). Prefixes are resolved with the
+// declarations in scope, to recognize documentation elements. Elements in
+// no namespace count as Relax NG, and Relax NG elements lose any prefix.
+export function collectAnnotations(
+  parent: XastRoot | Element,
+  prefixes: Record<string, string> = {},
+) {
+  for (const el of parent.children) {
+    if (el.type != 'element') continue;
+    const scope = { ...prefixes };
+    for (const [key, value] of Object.entries(el.attributes)) {
+      if (typeof value != 'string') continue;
+      if (key == 'xmlns') scope[''] = value;
+      else if (key.startsWith('xmlns:'))
+        scope[key.slice('xmlns:'.length)] = value;
+    }
+    el.name = localName(el.name);
+    const annotations: Annotations = {};
+    for (const [key, value] of Object.entries(el.attributes)) {
+      if (!isAnnotationName(key) || key.startsWith('xmlns:')) continue;
+      if (typeof value == 'string') {
+        annotations.attributes ||= {};
+        annotations.attributes[key] = value;
+      }
+      delete el.attributes[key];
+    }
+    const documentation: string[] = [];
+    el.children = el.children.filter((ch) => {
+      if (ch.type != 'element') return true;
+      const ns = namespaceOf(ch, scope);
+      if (ns == RELAXNG_NAMESPACE) return true;
+      if (!isAnnotationName(ch.name) && (ns ?? '') == '') return true;
+      if (
+        ns == ANNOTATIONS_NAMESPACE &&
+        localName(ch.name) == 'documentation'
+      ) {
+        documentation.push(textOf(ch).trim());
+      } else {
+        annotations.elements ||= [];
+        annotations.elements.push(ch);
+      }
+      return false;
+    });
+    if (documentation.length > 0)
+      annotations.documentation = documentation.join('\n\n');
+    if (Object.keys(annotations).length > 0)
+      el.data = { ...el.data, annotations };
+    collectAnnotations(el, scope);
+  }
+}
+
+// The namespace of the element's name, declared on the element itself or
+// in scope, or undefined if there is no declaration for its prefix
+function namespaceOf(
+  el: Element,
+  scope: Record<string, string>,
+): string | undefined {
+  const prefix = isAnnotationName(el.name) ? el.name.split(':')[0] : '';
+  const declared = el.attributes[prefix ? `xmlns:${prefix}` : 'xmlns'];
+  return typeof declared == 'string' ? declared : scope[prefix];
+}
+
+function localName(name: string) {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function isAnnotationName(name: string) {
+  return name.includes(':');
+}
+
+function textOf(node: ElementContent): string {
+  if (node.type == 'text') return node.value;
+  if (node.type == 'element') return node.children.map(textOf).join('');
+  return '';
+}
+
+// Comments and processing instructions are not part of the grammar
+export function removeCommentsAndInstructions(tree: XastRoot) {
   const isValid = (ch: XastNode) =>
-    ch.type == 'element' && (ch as Element).name != 'a:documentation';
+    ch.type != 'comment' && ch.type != 'instruction' && ch.type != 'doctype';
   const filterChildren = (node: XastNode) => {
     if ('children' in node && Array.isArray(node.children)) {
       node.children = node.children.filter(isValid);
     }
   };
-  visit(tree, (n: XastNode) => n.type == 'element', filterChildren);
+  visit(tree, (n: XastNode) => 'children' in n, filterChildren);
 }
 
-export function dropPositions(tree: XastRoot) {
-  visit(tree, (node) => {
-    delete node.position;
-  });
+export interface ParseOptions {
+  // Loads the grammars referenced by <include> elements. Without
+  // a resolver, includes are left unresolved.
+  resolver?: ResourceResolver;
+  // The url of the grammar being parsed, for resolving relative hrefs
+  url?: string;
+  // When given, problems are collected here and parsing continues with a
+  // best-effort tree. Otherwise the first problem is thrown.
+  messages?: RngParseError[];
 }
 
-export function parsePreTextSpec(specData: string): RelaxNgRoot {
-  const tree = fromXml(specData);
-  removeWhiteSpaceNodes(tree);
-  removeDocumentationNodes(tree);
-  dropPositions(tree);
-  if (tree.children[0].type == 'instruction') {
-    tree.children.splice(0, 1);
+// The urls of the resources currently being loaded, outermost first.
+// Used to detect resources that include themselves.
+interface ParseContext extends ParseOptions {
+  loading: string[];
+}
+
+function createContext(options: ParseOptions): ParseContext {
+  return { ...options, loading: options.url ? [options.url] : [] };
+}
+
+// Parses a Relax NG grammar in the XML syntax
+export function parseRelaxNg(
+  xml: string,
+  options: ParseOptions = {},
+): RelaxNgRoot {
+  return parseGrammarXml(xml, createContext(options));
+}
+
+// The same as parseRelaxNg, which works for any grammar
+export function parsePreTextSpec(
+  specData: string,
+  options: ParseOptions = {},
+): RelaxNgRoot {
+  return parseRelaxNg(specData, options);
+}
+
+// A grammar that cannot be parsed at all matches nothing
+function parseGrammarXml(specData: string, ctx: ParseContext): RelaxNgRoot {
+  let tree: XastRoot;
+  try {
+    tree = fromXml(specData);
+  } catch (e) {
+    if (!(e instanceof VFileMessage)) throw e;
+    report(
+      ctx,
+      new RngParseError('invalid-xml', e.reason, {
+        place: e.place,
+        url: ctx.url,
+        cause: e,
+      }),
+    );
+    return { type: 'root', children: [b.notAllowed()] };
   }
-  return convertXastToRngAst(tree);
+  removeCommentsAndInstructions(tree);
+  removeWhiteSpaceNodes(tree);
+  collectAnnotations(tree);
+  return convertWithContext(tree, ctx);
 }
 
 // Converts the simplified tree from parsePreTextSpec into
 // a RelaxNgRoot tree.
-export function convertXastToRngAst(tree: XastRoot): RelaxNgRoot {
-  const child = tree.children[0];
-  if (child.type !== 'element')
-    throw new Error('top element must be a grammar element');
-  return { type: 'root', children: [convertToGrammarElement(child)] };
-}
-
-function convertToGrammarElement(node: Element) {
-  const [start, ...defs] = node.children;
-  return b.grammar(
-    convertToStart(start),
-    defs.map((def) => convertToDef(def)),
+export function convertXastToRngAst(
+  tree: XastRoot,
+  options: ParseOptions = {},
+): RelaxNgRoot {
+  return convertWithContext(tree, createContext(options));
+}
+
+function convertWithContext(tree: XastRoot, ctx: ParseContext): RelaxNgRoot {
+  const child = tree.children.find((ch) => ch.type == 'element');
+  const [pattern = b.notAllowed()] = recover(ctx, () => {
+    if (child?.type !== 'element')
+      throw parseError(
+        ctx,
+        'unexpected-node',
+        'top element must be a pattern element',
+        child,
+      );
+    return convertPatternNode(child, ctx);
+  });
+  const root: RelaxNgRoot = { type: 'root', children: [pattern] };
+  if (tree.position) root.position = tree.position;
+  return root;
+}
+
+// Loads and parses the pattern at href through the context's resolver.
+// Resources that cannot be loaded are left unresolved when recovering.
+function loadResource(
+  href: string,
+  el: Element,
+  ctx: ParseContext,
+): Pattern | undefined {
+  if (ctx.resolver == undefined) return undefined;
+  let resource: Resource;
+  try {
+    resource = ctx.resolver.resolve(href, ctx.url);
+  } catch (e) {
+    const cause = e instanceof Error ? e : undefined;
+    const message = cause ? cause.message : String(e);
+    const error = new RngParseError('unresolved-resource', message, {
+      element: el,
+      url: ctx.url,
+      cause,
+    });
+    report(ctx, error);
+    return undefined;
+  }
+  const loading = [...ctx.loading, resource.url];
+  if (ctx.loading.includes(resource.url)) {
+    const message = `Resource loop: ${loading.join(' -> ')}`;
+    report(ctx, parseError(ctx, 'resource-loop', message, el));
+    return undefined;
+  }
+  const root = parseGrammarXml(resource.content, {
+    ...ctx,
+    url: resource.url,
+    loading,
+  });
+  return root.children[0];
+}
+
+// Loads the grammar at href. Included resources must be grammars
+function loadGrammar(
+  href: string,
+  el: Element,
+  ctx: ParseContext,
+): Grammar | undefined {
+  const pattern = loadResource(href, el, ctx);
+  if (pattern == undefined) return undefined;
+  if (pattern.type !== 'grammar') {
+    const message = `Included resource must be a grammar: ${href}`;
+    report(ctx, parseError(ctx, 'invalid-resource', message, el));
+    return undefined;
+  }
+  return pattern;
+}
+
+function convertToGrammarElement(node: Element, ctx: ParseContext) {
+  return b.grammar(...convertGrammarContents(node.children, ctx));
+}
+
+function convertGrammarContents(
+  children: ElementContent[],
+  ctx: ParseContext,
+  inInclude: boolean = false,
+): GrammarContent[] {
+  return children.flatMap((ch) =>
+    recover(ctx, () => convertGrammarContent(ch, ctx, inInclude)),
+  );
+}
+
+// Converts start, define, div and include elements. Within an include
+// only start, define and div are allowed.
+function convertGrammarContent(
+  node: ElementContent,
+  ctx: ParseContext,
+  inInclude: boolean = false,
+): GrammarContent {
+  if (node.type !== 'element')
+    throw parseError(
+      ctx,
+      'unexpected-node',
+      `Expected an element but found ${node.type}`,
+      node,
+    );
+  const content = convertGrammarContentElement(node, ctx, inInclude);
+  convertSource(node, content, ctx);
+  convertInheritedAttributes(node, content);
+  return content;
+}
+
+function convertGrammarContentElement(
+  node: Element,
+  ctx: ParseContext,
+  inInclude: boolean,
+): GrammarContent {
+  switch (node.name) {
+    case 'start':
+      return convertToStart(node, ctx);
+    case 'define':
+      return convertToDef(node, ctx);
+    case 'div':
+      return b.div(...convertGrammarContents(node.children, ctx, inInclude));
+    case 'include':
+      if (inInclude)
+        throw parseError(
+          ctx,
+          'invalid-grammar-content',
+          'Include cannot contain <include>',
+          node,
+        );
+      return convertToInclude(node, ctx);
+    default:
+      throw parseError(
+        ctx,
+        'invalid-grammar-content',
+        'Grammar must consist of <start>, <define>, <div> and <include> elements only.',
+        node,
+      );
+  }
+}
+
+function convertToInclude(node: Element, ctx: ParseContext) {
+  const href = ensureAttr(
+    node,
+    'href',
+    'Include elements must have @href',
+    ctx,
   );
+  const include = b.include(
+    href,
+    ...(convertGrammarContents(node.children, ctx, true) as IncludeContent[]),
+  );
+  const grammar = loadGrammar(href, node, ctx);
+  if (grammar) include.grammar = grammar;
+  return include;
 }
 
-function convertToStart(node: ElementContent) {
-  if (node.type !== 'element' || node.name !== 'start')
-    throw new Error('Grammar must begin with <start>');
-  return b.start(convertPatternNode(node.children[0]));
+// A start that cannot be converted matches nothing
+function convertToStart(node: Element, ctx: ParseContext) {
+  if (node.children.length != 1)
+    report(
+      ctx,
+      parseError(
+        ctx,
+        'invalid-children',
+        'Start must contain exactly one pattern',
+        node,
+      ),
+    );
+  const [pattern = b.notAllowed()] = convertPatterns(
+    node.children.slice(0, 1),
+    ctx,
+  );
+  const start = b.start(pattern);
+  const combine = convertCombine(node, ctx);
+  if (combine) start.combine = combine;
+  return start;
 }
 
-function convertToDef(node: ElementContent) {
-  if (node.type !== 'element' || node.name !== 'define')
-    throw new Error('Grammar must consist of <start> and <define>s only.');
-  const name = node.attributes.name;
-  if (typeof name !== 'string')
-    throw new Error('Each <define> must have a @name');
-  return b.define(name, ...node.children.map((nd) => convertPatternNode(nd)));
+function convertToDef(node: Element, ctx: ParseContext) {
+  const name = ensureAttr(node, 'name', 'Each <define> must have a @name', ctx);
+  const def = b.define(name, ...convertPatterns(node.children, ctx));
+  const combine = convertCombine(node, ctx);
+  if (combine) def.combine = combine;
+  return def;
 }
 
-function convertPatternNode(node: XastNode): Pattern {
+function convertCombine(
+  node: Element,
+  ctx: ParseContext,
+): CombineMethod | undefined {
+  const combine = node.attributes.combine?.trim();
+  if (combine == undefined) return undefined;
+  if (combine !== 'choice' && combine !== 'interleave') {
+    const message = `Invalid combine value: ${combine}`;
+    report(ctx, parseError(ctx, 'invalid-attribute-value', message, node));
+    return undefined;
+  }
+  return combine;
+}
+
+function convertPatternNode(node: XastNode, ctx: ParseContext): Pattern {
   if (node.type !== 'element')
-    throw new Error(`Expected an element but found ${node.type}`);
+    throw parseError(
+      ctx,
+      'unexpected-node',
+      `Expected an element but found ${node.type}`,
+      node,
+    );
   const el = node as Element;
+  const pattern = convertPatternElement(el, ctx);
+  convertSource(el, pattern, ctx);
+  convertInheritedAttributes(el, pattern);
+  return pattern;
+}
+
+// Keeps the position of the element, and the url of the resource
+// it is in, so that nodes can be traced back to their source.
+// Also keeps the element's annotations.
+function convertSource(el: Element, node: RngNode, ctx: ParseContext) {
+  if (el.position) node.position = el.position;
+  if (ctx.url != undefined) node.data = { ...node.data, url: ctx.url };
+  const annotations = el.data?.annotations;
+  if (annotations) node.data = { ...node.data, annotations };
+}
+
+// Copies the ns and datatypeLibrary attributes and the namespace
+// prefix declarations
+function convertInheritedAttributes(el: Element, node: RngNode) {
+  if (typeof el.attributes.ns == 'string') node.ns = el.attributes.ns;
+  if (typeof el.attributes.datatypeLibrary == 'string')
+    node.datatypeLibrary = el.attributes.datatypeLibrary;
+  for (const [key, value] of Object.entries(el.attributes)) {
+    if (!key.startsWith('xmlns:') || typeof value != 'string') continue;
+    node.namespaces ||= {};
+    node.namespaces[key.slice('xmlns:'.length)] = value;
+  }
+}
+
+function convertPatternElement(el: Element, ctx: ParseContext): Pattern {
   switch (el.name) {
     case 'empty':
       return b.empty();
     case 'text':
       return b.text();
     case 'value':
-      return convertToValue(el);
+      return convertToValue(el, ctx);
     case 'ref':
-      return convertToRef(el);
+      return convertToRef(el, ctx);
+    case 'data':
+      return convertToData(el, ctx);
+    case 'notAllowed':
+      return b.notAllowed();
+    case 'parentRef':
+      return b.parentRef(
+        ensureAttr(el, 'name', 'ParentRef elements must have name.', ctx),
+      );
+    case 'externalRef':
+      return convertToExternalRef(el, ctx);
+    case 'grammar':
+      return convertToGrammarElement(el, ctx);
     case 'choice':
-      return b.choice(...el.children.map(convertPatternNode));
+      return b.choice(...convertPatterns(el.children, ctx));
     case 'group':
-      return b.group(...el.children.map(convertPatternNode));
+      return b.group(...convertPatterns(el.children, ctx));
     case 'oneOrMore':
-      return b.oneOrMore(...el.children.map(convertPatternNode));
+      return b.oneOrMore(...convertPatterns(el.children, ctx));
     case 'zeroOrMore':
-      return b.zeroOrMore(...el.children.map(convertPatternNode));
+      return b.zeroOrMore(...convertPatterns(el.children, ctx));
     case 'interleave':
-      return b.interleave(...el.children.map(convertPatternNode));
+      return b.interleave(...convertPatterns(el.children, ctx));
     case 'mixed':
-      return b.mixed(...el.children.map(convertPatternNode));
+      return b.mixed(...convertPatterns(el.children, ctx));
+    case 'list':
+      return b.list(...convertPatterns(el.children, ctx));
     case 'element':
+      if (el.attributes.name == undefined) return convertToElement(el, ctx);
       return b.elemNamed(
-        ensureAttr(el, 'name', 'Element elements must have name'),
-        ...el.children.map(convertPatternNode),
+        ensureAttr(el, 'name', 'Element elements must have name', ctx),
+        ...convertPatterns(el.children, ctx),
       );
     case 'optional':
-      return b.optional(...el.children.map(convertPatternNode));
-    case 'attribute':
-      return b.attrNamed(
-        ensureAttr(el, 'name', 'Attribute elements must have name'),
-        convertAttributeContent(
-          ensureAtMostOneChild(el, 'Attribute must contain at most one child'),
-        ),
+      return b.optional(...convertPatterns(el.children, ctx));
+    case 'attribute': {
+      if (el.attributes.name == undefined) return convertToAttribute(el, ctx);
+      const name = ensureAttr(
+        el,
+        'name',
+        'Attribute elements must have name',
+        ctx,
+      );
+      const child = ensureAtMostOneChild(
+        el,
+        'Attribute must contain at most one child',
+        ctx,
       );
+      const [content] = recover(ctx, () => convertAttributeContent(child, ctx));
+      return b.attrNamed(name, content);
+    }
     default:
-      throw new Error(`unknown pattern: ${el.name}`);
+      throw parseError(
+        ctx,
+        'unknown-pattern',
+        `unknown pattern: ${el.name}`,
+        el,
+      );
   }
 }
 
-function convertAttributeContent(node?: XastNode) {
-  if (node == undefined) return undefined;
+// An element without a name attribute has a name class as its first child
+function convertToElement(el: Element, ctx: ParseContext) {
+  const [first, ...rest] = el.children;
+  if (first == undefined)
+    throw parseError(
+      ctx,
+      'invalid-children',
+      'Element elements must have a name or a name class',
+      el,
+    );
+  return b.elem(
+    convertNameClassNode(first, ctx),
+    ...convertPatterns(rest, ctx),
+  );
+}
+
+// An attribute without a name attribute has a name class as its first
+// child, followed by at most one pattern
+function convertToAttribute(el: Element, ctx: ParseContext) {
+  const [first, ...rest] = el.children;
+  if (first == undefined || rest.length > 1)
+    throw parseError(
+      ctx,
+      'invalid-children',
+      'Attribute elements must have a name or a name class, and at most one child',
+      el,
+    );
+  const nameClass = convertNameClassNode(first, ctx);
+  const [content] = recover(ctx, () => convertAttributeContent(rest[0], ctx));
+  return b.attr(nameClass, content);
+}
+
+function convertNameClasses(
+  children: ElementContent[],
+  ctx: ParseContext,
+): NameClass[] {
+  return children.flatMap((ch) =>
+    recover(ctx, () => convertNameClassNode(ch, ctx)),
+  );
+}
+
+function convertNameClassNode(node: XastNode, ctx: ParseContext): NameClass {
   if (node.type !== 'element')
-    throw new Error('Attribute content must be element');
+    throw parseError(
+      ctx,
+      'unexpected-node',
+      `Expected a name class but found ${node.type}`,
+      node,
+    );
   const el = node as Element;
+  const nameClass = convertNameClassElement(el, ctx);
+  convertSource(el, nameClass, ctx);
+  convertInheritedAttributes(el, nameClass);
+  return nameClass;
+}
+
+function convertNameClassElement(el: Element, ctx: ParseContext): NameClass {
   switch (el.name) {
+    case 'name': {
+      if (el.children.some((ch) => ch.type !== 'text')) {
+        const message = 'Name elements should only contain text';
+        report(ctx, parseError(ctx, 'expected-text', message, el));
+      }
+      return b.name(el.children.map(textOf).join('').trim());
+    }
+    case 'anyName':
+      return b.anyName(...convertNameClassExcept(el, ctx));
+    case 'nsName':
+      return b.nsName(undefined, ...convertNameClassExcept(el, ctx));
     case 'choice':
-      return b.choice(...el.children.map(convertPatternNode));
-    case 'value':
-      return convertToValue(el);
-    case 'ref':
-      return convertToRef(el);
-    case 'text':
-    case 'data':
-      return b.data(ensureAttr(el, 'type', 'Data elements must have @type'));
+      return b.nameChoice(...convertNameClasses(el.children, ctx));
     default:
-      throw new Error(`Invalid node type ${el.name}`);
+      throw parseError(
+        ctx,
+        'unknown-name-class',
+        `unknown name class: ${el.name}`,
+        el,
+      );
   }
 }
 
-function convertToRef(el: Element) {
-  return b.ref(ensureAttr(el, 'name', 'Ref elements must have name.'));
+// The name classes in the optional except child of anyName and nsName
+function convertNameClassExcept(el: Element, ctx: ParseContext) {
+  const except = ensureAtMostOneChild(
+    el,
+    `${el.name} must contain at most one <except>`,
+    ctx,
+  );
+  if (except == undefined) return [];
+  if (except.type != 'element' || except.name != 'except')
+    throw parseError(
+      ctx,
+      'invalid-children',
+      `${el.name} can only contain <except>`,
+      except,
+    );
+  return convertNameClasses(except.children, ctx);
+}
+
+// Any pattern can appear as attribute content, matching its string value
+function convertAttributeContent(
+  node: XastNode | undefined,
+  ctx: ParseContext,
+) {
+  if (node == undefined) return undefined;
+  return convertPatternNode(node, ctx);
 }
 
-function convertToValue(el: Element) {
-  if (el.children.length == 0) return b.value('');
-  if (el.children[0].type !== 'text')
-    throw new Error('Value elements should have single text node');
-  return b.value(el.children[0].value);
+function convertToExternalRef(el: Element, ctx: ParseContext) {
+  const href = ensureAttr(
+    el,
+    'href',
+    'ExternalRef elements must have @href',
+    ctx,
+  );
+  const externalRef = b.externalRef(href);
+  const pattern = loadResource(href, el, ctx);
+  if (pattern) externalRef.pattern = pattern;
+  return externalRef;
+}
+
+// Data elements contain any params, followed by an optional except.
+// Anything else is skipped when recovering.
+function convertToData(el: Element, ctx: ParseContext) {
+  const dataType = ensureAttr(el, 'type', 'Data elements must have @type', ctx);
+  const params: Param[] = [];
+  let exceptPattern: Except | undefined = undefined;
+  for (const child of el.children) {
+    if (child.type == 'element' && child.name == 'param' && !exceptPattern) {
+      const param = convertToParam(child, ctx);
+      convertSource(child, param, ctx);
+      params.push(param);
+    } else if (
+      child.type == 'element' &&
+      child.name == 'except' &&
+      !exceptPattern
+    ) {
+      exceptPattern = b.except(...convertPatterns(child.children, ctx));
+      convertSource(child, exceptPattern, ctx);
+      convertInheritedAttributes(child, exceptPattern);
+    } else {
+      const message =
+        child.type == 'element' && child.name == 'except'
+          ? 'Data can have at most one <except>'
+          : 'Data must contain <param>s followed by an <except>';
+      report(ctx, parseError(ctx, 'invalid-data-content', message, child));
+    }
+  }
+  return b.data(dataType, params, exceptPattern);
+}
+
+function convertToParam(el: Element, ctx: ParseContext) {
+  const name = ensureAttr(el, 'name', 'Param elements must have name', ctx);
+  if (el.children.some((ch) => ch.type !== 'text')) {
+    const message = 'Param elements should only contain text';
+    report(ctx, parseError(ctx, 'expected-text', message, el));
+  }
+  const value = el.children.map((ch) => (ch.type == 'text' ? ch.value : ''));
+  return b.param(name, value.join(''));
+}
+
+function convertToRef(el: Element, ctx: ParseContext) {
+  return b.ref(ensureAttr(el, 'name', 'Ref elements must have name.', ctx));
+}
+
+// Comments may have split the text of the value into several nodes
+function convertToValue(el: Element, ctx: ParseContext) {
+  if (el.children.some((ch) => ch.type !== 'text')) {
+    const message = 'Value elements should only contain text';
+    report(ctx, parseError(ctx, 'expected-text', message, el));
+  }
+  const dataType = el.attributes.type;
+  return b.value(
+    el.children.map(textOf).join(''),
+    typeof dataType == 'string' ? dataType : undefined,
+  );
 }